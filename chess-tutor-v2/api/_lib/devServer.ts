@@ -0,0 +1,106 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { loadEnv, type Connect, type Plugin } from 'vite';
+import chessTutorHandler from '../chess-tutor';
+
+/**
+ * Serves the API routes from `vite dev` and `vite preview`, which otherwise
+ * only serve the front end. On Vercel the same handlers run as functions.
+ */
+
+type ApiHandler = (req: NextApiRequest, res: NextApiResponse) => unknown;
+
+const ROUTES: Record<string, ApiHandler> = {
+  '/api/chess-tutor': chessTutorHandler,
+};
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * A body that couldn't be read, answered with `status`.
+ */
+class BodyError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new BodyError(413, 'Request body is too large');
+    chunks.push(chunk);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new BodyError(400, 'Request body is not valid JSON');
+  }
+}
+
+/**
+ * Adds the helpers the handlers use from the Next/Vercel response:
+ * `status()` and `json()`.
+ */
+function toApiResponse(res: ServerResponse): NextApiResponse {
+  const apiRes = Object.assign(res, {
+    status(code: number) {
+      res.statusCode = code;
+      return apiRes;
+    },
+    json(data: unknown) {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(data));
+      return apiRes;
+    },
+  });
+  return apiRes as unknown as NextApiResponse;
+}
+
+const apiMiddleware: Connect.NextHandleFunction = async (req, res, next) => {
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+  const handler = ROUTES[path];
+  if (!handler) return next();
+
+  const apiRes = toApiResponse(res);
+  try {
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+    const apiReq = Object.assign(req, { body, query: {}, cookies: {} }) as unknown as NextApiRequest;
+    await handler(apiReq, apiRes);
+  } catch (error) {
+    if (error instanceof BodyError) {
+      apiRes.status(error.status).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+};
+
+export function apiRoutes(): Plugin {
+  return {
+    name: 'chess-tutor-api',
+
+    // Make .env settings such as OPENAI_API_KEY and LLM_PROVIDER visible to the handlers
+    configResolved(config) {
+      const env = loadEnv(config.mode, config.envDir, '');
+      for (const [key, value] of Object.entries(env)) {
+        process.env[key] ??= value;
+      }
+    },
+
+    configureServer(server) {
+      server.middlewares.use(apiMiddleware);
+    },
+
+    configurePreviewServer(server) {
+      server.middlewares.use(apiMiddleware);
+    },
+  };
+}
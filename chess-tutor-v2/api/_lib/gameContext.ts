@@ -0,0 +1,145 @@
+import { Chess } from 'chess.js';
+
+/**
+ * The game behind a chat question, described for the tutor: its moves,
+ * the position the student is looking at, and the engine analysis once
+ * the game has been analyzed. The description is cut down to fit a token
+ * budget, dropping what is least likely to matter first.
+ */
+
+const CHARS_PER_TOKEN = 4;               // Rough average for English and SAN
+
+export const MOVE_CLASSIFICATIONS = [
+  'brilliant', 'great', 'best', 'excellent', 'good', 'inaccuracy', 'mistake', 'miss', 'blunder', 'book',
+] as const;
+
+export type MoveClassification = (typeof MOVE_CLASSIFICATIONS)[number];
+
+// Moves worth pointing out to the tutor; the rest are only in the move list
+const NOTABLE: MoveClassification[] = ['brilliant', 'great', 'inaccuracy', 'mistake', 'miss', 'blunder'];
+
+/**
+ * The analysis of one move of the game.
+ */
+export interface AnalyzedMove {
+  classification: MoveClassification;
+  evaluation: number;                    // Centipawns for White, after the move
+  bestMove?: string;                     // Engine's choice in SAN, from the position before the move
+}
+
+export interface GameRecord {
+  startFen: string;
+  moves: string[];                       // Main line in SAN, checked to be legal from startFen
+  ply?: number;                          // Position the student is looking at, as a ply of the game
+  analysis?: AnalyzedMove[];             // One per move, from the first
+  summary?: string;                      // The coach's summary of the analysis
+}
+
+/**
+ * A rough token count, good enough for staying within a budget.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * The move number and dots for each ply, e.g. "12." or "12...".
+ */
+function moveLabels(startFen: string, count: number): string[] {
+  const [, turn, , , , fullMove] = startFen.split(' ');
+  const offset = turn === 'b' ? 1 : 0;
+  return Array.from({ length: count }, (_, index) => {
+    const moveNumber = Number(fullMove) + Math.floor((index + offset) / 2);
+    return (index + offset) % 2 === 0 ? `${moveNumber}.` : `${moveNumber}...`;
+  });
+}
+
+function formatEvaluation(centipawns: number): string {
+  const pawns = (centipawns / 100).toFixed(2);
+  return `${centipawns > 0 ? '+' : ''}${pawns}`;
+}
+
+/**
+ * The game for the tutor in at most `maxTokens`. When it doesn't fit, the
+ * summary goes first, then the analysis of the moves furthest from the one
+ * the student is looking at, then the earliest moves. Empty if not even
+ * the last moves fit.
+ */
+export function describeGame(game: GameRecord, maxTokens: number): string {
+  const labels = moveLabels(game.startFen, game.moves.length);
+  const focusPly = game.ply ?? game.moves.length;
+
+  // Notable moves by ply, closest to the position being looked at first
+  const notes = (game.analysis ?? [])
+    .map((analyzed, index) => ({ ...analyzed, ply: index + 1 }))
+    .filter(({ classification, ply }) => NOTABLE.includes(classification) && ply <= game.moves.length)
+    .sort((a, b) => Math.abs(a.ply - focusPly) - Math.abs(b.ply - focusPly));
+
+  let summary = game.summary;
+  let noteCount = notes.length;
+  let firstPly = 0;
+
+  const build = () => {
+    const moveText = game.moves
+      .slice(firstPly)
+      .map((san, index) => {
+        const ply = firstPly + index;
+        const label = labels[ply];
+        // Black's moves only need a number at the start of the text
+        return label.endsWith('...') && index > 0 ? san : `${label} ${san}`;
+      })
+      .join(' ');
+    const lines = [
+      game.moves.length === 0
+        ? 'No moves have been played yet.'
+        : `Moves: ${firstPly > 0 ? '(earlier moves left out) ' : ''}${moveText}`,
+    ];
+
+    if (game.ply !== undefined) {
+      lines.push(
+        game.ply === 0
+          ? 'The student is looking at the starting position.'
+          : `The student is looking at the position after ${labels[game.ply - 1]} ${game.moves[game.ply - 1]}.`
+      );
+    }
+
+    const shownNotes = notes.slice(0, noteCount).sort((a, b) => a.ply - b.ply);
+    if (shownNotes.length > 0) {
+      lines.push(
+        'Engine analysis of notable moves (evaluation in pawns for White after the move):',
+        ...shownNotes.map(({ ply, classification, evaluation, bestMove }) =>
+          `${labels[ply - 1]} ${game.moves[ply - 1]}: ${classification}, ${formatEvaluation(evaluation)}` +
+          (bestMove && bestMove !== game.moves[ply - 1] ? `, best was ${bestMove}` : '')
+        )
+      );
+    }
+    if (summary) lines.push(`Coach's summary of the game: ${summary}`);
+    return lines.join('\n');
+  };
+
+  let text = build();
+  while (estimateTokens(text) > maxTokens) {
+    if (summary) summary = undefined;
+    else if (noteCount > 0) noteCount--;
+    else if (firstPly < game.moves.length - 1) firstPly = Math.min(firstPly + 10, game.moves.length - 1);
+    else return '';
+    text = build();
+  }
+  return text;
+}
+
+/**
+ * Checks that `moves` are legal from `startFen`, returning the index of
+ * the first one that isn't, or -1.
+ */
+export function findIllegalMove(startFen: string, moves: string[]): number {
+  const chess = new Chess(startFen);
+  return moves.findIndex((san) => {
+    try {
+      chess.move(san);
+      return false;
+    } catch {
+      return true;
+    }
+  });
+}
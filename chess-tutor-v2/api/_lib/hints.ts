@@ -0,0 +1,51 @@
+import { Chess, type PieceSymbol, type Square } from 'chess.js';
+import { FULL_HINT, type HintLevel } from '../../src/tutor/hintLevels';
+import type { EngineLine } from './serverEngine';
+
+/**
+ * What a hint below the full one points at, so it doesn't have to give
+ * the answer away at once.
+ */
+
+/**
+ * The move a hint leads up to: the engine's best move, checked against
+ * the position.
+ */
+export interface HintTarget {
+  from: Square;
+  to: Square;
+  piece: PieceSymbol;
+}
+
+/**
+ * Squares highlighted on the student's board for a hint.
+ */
+export interface HintFocus {
+  from: Square;
+  to?: Square;            // Only once the hint says where the piece goes
+}
+
+/**
+ * The first move of the engine's best line, or null if there is no line
+ * or its first move isn't legal in `fen`.
+ */
+export function findHintTarget(fen: string, engineLines: EngineLine[]): HintTarget | null {
+  const uci = engineLines[0]?.pv[0];
+  if (!uci) return null;
+  try {
+    const move = { from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] };
+    const { from, to, piece } = new Chess(fen).move(move);
+    return { from, to, piece };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * What to highlight for a hint at `level`: nothing for the general idea
+ * or the full hint, the piece at level 2 and its destination as well at 3.
+ */
+export function getHintFocus(target: HintTarget | null, level: HintLevel): HintFocus | undefined {
+  if (!target || level === 1 || level === FULL_HINT) return undefined;
+  return level === 2 ? { from: target.from } : { from: target.from, to: target.to };
+}
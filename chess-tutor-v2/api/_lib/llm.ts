@@ -0,0 +1,80 @@
+import { createMockProvider } from './mockProvider';
+import { createOpenAiProvider } from './openAiProvider';
+
+/**
+ * Language model behind the tutor, chosen by configuration:
+ *
+ *   LLM_PROVIDER   `openai` (default), `local` or `mock`
+ *   LLM_MODEL      Model name; defaults to gpt-4o-mini, or llama3.2 for `local`
+ *   LLM_BASE_URL   Server for `local`; defaults to Ollama at http://localhost:11434/v1
+ *                  (llama.cpp's server listens on http://localhost:8080/v1)
+ *   LLM_API_KEY    Key for `local`, if the server wants one
+ *   OPENAI_API_KEY Key for `openai`
+ *   MOCK_LLM_RESPONSES  JSON file of canned responses for `mock`
+ */
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * A JSON Schema the reply has to follow, for structured output.
+ */
+export interface JsonSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface CompletionRequest {
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  jsonSchema?: JsonSchema;     // Reply with JSON matching this schema instead of text
+}
+
+export interface LlmProvider {
+  name: string;
+  /** The whole reply at once. */
+  complete(request: CompletionRequest, signal?: AbortSignal): Promise<string>;
+  /** The reply in pieces as it is generated. Stops when `signal` is aborted. */
+  stream(request: CompletionRequest, signal?: AbortSignal): AsyncIterable<string>;
+}
+
+export type ProviderName = 'openai' | 'local' | 'mock';
+
+const DEFAULT_LOCAL_URL = 'http://localhost:11434/v1';
+
+let provider: LlmProvider | null = null;
+
+function createProvider(env: NodeJS.ProcessEnv): LlmProvider {
+  const name = (env.LLM_PROVIDER ?? 'openai').toLowerCase();
+  switch (name) {
+    case 'openai':
+      return createOpenAiProvider({
+        name,
+        apiKey: env.OPENAI_API_KEY,
+        model: env.LLM_MODEL ?? 'gpt-4o-mini',
+      });
+    case 'local':
+      return createOpenAiProvider({
+        name,
+        baseURL: env.LLM_BASE_URL ?? DEFAULT_LOCAL_URL,
+        // Local servers accept any key, but the client insists on one
+        apiKey: env.LLM_API_KEY ?? 'local',
+        model: env.LLM_MODEL ?? 'llama3.2',
+      });
+    case 'mock':
+      return createMockProvider(env.MOCK_LLM_RESPONSES);
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}"; expected openai, local or mock`);
+  }
+}
+
+/**
+ * The configured provider, created on first use.
+ */
+export function getLlmProvider(): LlmProvider {
+  provider ??= createProvider(process.env);
+  return provider;
+}
@@ -0,0 +1,85 @@
+import { readFileSync } from 'node:fs';
+import type { CompletionRequest, LlmProvider } from './llm';
+
+/**
+ * Deterministic provider for offline development and tests of the tutor UI.
+ *
+ * The reply is the first canned response whose `match` appears in the last
+ * user message (ignoring case). Responses from the MOCK_LLM_RESPONSES file,
+ * a JSON array of `{ "match": "...", "response": "...", "moves": [...] }`,
+ * are tried before the built-in ones. When a structured reply is asked for,
+ * the response becomes its explanation and `moves` its suggested moves.
+ */
+
+export interface CannedResponse {
+  match: string;
+  response: string;
+  moves?: string[];       // SAN; any that are illegal in the position get dropped later
+}
+
+const BUILT_IN_RESPONSES: CannedResponse[] = [
+  {
+    match: 'Top moves according to',
+    response:
+      'This is a mock hint. The position is balanced, so focus on development: bring out a knight or ' +
+      'bishop toward the centre and get your king castled. Before moving, check whether any of your ' +
+      'pieces are undefended.',
+    moves: ['Nf3', 'Nc6', 'Nc3', 'Nf6', 'e4', 'e5'],
+  },
+  {
+    match: 'Analyze this chess game summary',
+    response:
+      'This is a mock game summary. You developed your pieces well and kept the game close. To improve, ' +
+      'look for your opponent\'s threats before each move and double-check captures that leave a piece hanging.',
+  },
+];
+
+const DEFAULT_RESPONSE =
+  'This is a mock tutor reply. Set LLM_PROVIDER to openai or local to talk to a real model.';
+
+function loadResponses(path: string): CannedResponse[] {
+  const responses: unknown = JSON.parse(readFileSync(path, 'utf8'));
+  if (
+    !Array.isArray(responses) ||
+    !responses.every(
+      (entry) =>
+        typeof entry?.match === 'string' &&
+        typeof entry?.response === 'string' &&
+        (entry.moves === undefined || Array.isArray(entry.moves))
+    )
+  ) {
+    throw new Error(`${path} must be an array of { "match": string, "response": string, "moves"?: string[] }`);
+  }
+  return responses;
+}
+
+export function createMockProvider(responsesPath?: string): LlmProvider {
+  const responses = [...(responsesPath ? loadResponses(responsesPath) : []), ...BUILT_IN_RESPONSES];
+
+  const reply = ({ messages, jsonSchema }: CompletionRequest) => {
+    const prompt = [...messages].reverse().find((message) => message.role === 'user')?.content.toLowerCase() ?? '';
+    const canned = responses.find(({ match }) => prompt.includes(match.toLowerCase()));
+    const response = canned?.response ?? DEFAULT_RESPONSE;
+    if (!jsonSchema) return response;
+    return JSON.stringify({
+      explanation: response,
+      moves: (canned?.moves ?? []).map((san) => ({ san, reason: 'Suggested by the mock tutor.' })),
+    });
+  };
+
+  return {
+    name: 'mock',
+
+    async complete(request) {
+      return reply(request);
+    },
+
+    // Word by word, so the UI sees a reply arrive in pieces
+    async *stream(request, signal) {
+      for (const word of reply(request).match(/\S+\s*/g) ?? []) {
+        if (signal?.aborted) return;
+        yield word;
+      }
+    },
+  };
+}
@@ -0,0 +1,43 @@
+import OpenAI from 'openai';
+import type { CompletionRequest, LlmProvider } from './llm';
+
+interface OpenAiProviderOptions {
+  name: string;
+  model: string;
+  apiKey?: string;
+  baseURL?: string;      // Any OpenAI-compatible server, e.g. Ollama or llama.cpp
+}
+
+/**
+ * Provider for the OpenAI API and servers that speak the same protocol.
+ */
+export function createOpenAiProvider({ name, model, apiKey, baseURL }: OpenAiProviderOptions): LlmProvider {
+  const client = new OpenAI({ apiKey, baseURL });
+
+  const toParams = ({ messages, temperature, maxTokens, jsonSchema }: CompletionRequest) => ({
+    model,
+    messages,
+    temperature,
+    max_tokens: maxTokens,
+    response_format: jsonSchema
+      ? { type: 'json_schema' as const, json_schema: { ...jsonSchema, strict: true } }
+      : undefined,
+  });
+
+  return {
+    name,
+
+    async complete(request, signal) {
+      const completion = await client.chat.completions.create(toParams(request), { signal });
+      return completion.choices[0]?.message.content ?? '';
+    },
+
+    async *stream(request, signal) {
+      const stream = await client.chat.completions.create({ ...toParams(request), stream: true }, { signal });
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+  };
+}
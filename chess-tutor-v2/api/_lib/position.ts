@@ -0,0 +1,174 @@
+import { Chess, type Color, type PieceSymbol, type Square } from 'chess.js';
+import { nullMoveFen } from '../../src/engine/threatRules';
+import type { EngineThreat } from './serverEngine';
+
+/**
+ * Facts about a position worked out on the server with chess.js, so the
+ * tutor reasons from verified data rather than what the client claims.
+ */
+
+const PIECE_VALUES: Record<PieceSymbol, number> = { p: 1, n: 3, b: 3, r: 5, q: 9, k: 0 };
+export const PIECE_NAMES: Record<PieceSymbol, string> = {
+  p: 'pawn', n: 'knight', b: 'bishop', r: 'rook', q: 'queen', k: 'king',
+};
+const COLOR_NAMES: Record<Color, string> = { w: 'White', b: 'Black' };
+
+export interface HangingPiece {
+  square: Square;
+  color: Color;
+  piece: PieceSymbol;
+  attackers: Square[];
+  defended: boolean;      // Defended, but attacked by a cheaper piece
+}
+
+/**
+ * A threat checked against the position: the opponent's move in SAN.
+ */
+export interface ThreatFact {
+  san: string;
+  score: EngineThreat['score'];
+}
+
+export interface PositionFacts {
+  fen: string;
+  turn: Color;
+  inCheck: boolean;
+  isCheckmate: boolean;
+  isStalemate: boolean;
+  legalMoves: string[];         // SAN
+  checkingMoves: string[];      // Legal moves that give check, SAN
+  material: Record<Color, number>;
+  hanging: HangingPiece[];
+}
+
+/**
+ * Pieces attacked by the other side that are undefended, or attacked by a
+ * piece worth less than they are. Pins and exchanges are not looked into.
+ */
+function findHangingPieces(chess: Chess): HangingPiece[] {
+  const hanging: HangingPiece[] = [];
+  for (const row of chess.board()) {
+    for (const square of row) {
+      if (!square || square.type === 'k') continue;
+      const opponent = square.color === 'w' ? 'b' : 'w';
+      const attackers = chess.attackers(square.square, opponent);
+      if (attackers.length === 0) continue;
+
+      const defended = chess.attackers(square.square, square.color).length > 0;
+      const cheapest = Math.min(...attackers.map((from) => PIECE_VALUES[chess.get(from)!.type]));
+      if (!defended || cheapest < PIECE_VALUES[square.type]) {
+        hanging.push({ square: square.square, color: square.color, piece: square.type, attackers, defended });
+      }
+    }
+  }
+  return hanging;
+}
+
+/**
+ * Facts for a FEN that has already been validated.
+ */
+export function getPositionFacts(fen: string): PositionFacts {
+  const chess = new Chess(fen);
+  const moves = chess.moves({ verbose: true });
+
+  const material: Record<Color, number> = { w: 0, b: 0 };
+  for (const row of chess.board()) {
+    for (const square of row) {
+      if (square) material[square.color] += PIECE_VALUES[square.type];
+    }
+  }
+
+  return {
+    fen,
+    turn: chess.turn(),
+    inCheck: chess.inCheck(),
+    isCheckmate: chess.isCheckmate(),
+    isStalemate: chess.isStalemate(),
+    legalMoves: moves.map((move) => move.san),
+    checkingMoves: moves.filter((move) => /[+#]$/.test(move.san)).map((move) => move.san),
+    material,
+    hanging: findHangingPieces(chess),
+  };
+}
+
+/**
+ * The threat with its move in SAN, or null if the move isn't one the
+ * opponent could make if the side to move passed.
+ */
+export function verifyThreat(fen: string, threat: EngineThreat): ThreatFact | null {
+  const passedFen = nullMoveFen(fen);
+  const [san] = passedFen ? lineToSan(passedFen, [threat.move]) : [];
+  return san ? { san, score: threat.score } : null;
+}
+
+/**
+ * A line of UCI moves in SAN, cut at the first move that isn't legal.
+ */
+export function lineToSan(fen: string, uciMoves: string[]): string[] {
+  const chess = new Chess(fen);
+  const san: string[] = [];
+  for (const uci of uciMoves) {
+    try {
+      san.push(chess.move({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] }).san);
+    } catch {
+      break;
+    }
+  }
+  return san;
+}
+
+function describeThreat(threat: ThreatFact | null, opponent: Color): string {
+  const name = COLOR_NAMES[opponent];
+  if (!threat) return `Threat: none; ${name} has no strong move even with a free move.`;
+  const { type, value } = threat.score;
+  const outcome = type === 'mate' ? `mate in ${value}` : `${value > 0 ? '+' : ''}${(value / 100).toFixed(2)} for ${name}`;
+  return `Threat: if ${name} could move now, ${name} would play ${threat.san} (${outcome}).`;
+}
+
+/**
+ * The facts as lines of text for a prompt. `threat` is left out when it is
+ * undefined, which means no threat search was done.
+ */
+export function describePosition(facts: PositionFacts, threat?: ThreatFact | null): string {
+  const side = COLOR_NAMES[facts.turn];
+  const balance = facts.material.w - facts.material.b;
+  const lines = [
+    `Position (FEN): ${facts.fen}`,
+    `${side} to move.`,
+  ];
+
+  if (facts.isCheckmate) {
+    lines.push(`${side} is checkmated.`);
+  } else if (facts.isStalemate) {
+    lines.push(`${side} is stalemated; the game is drawn.`);
+  } else {
+    if (facts.inCheck) lines.push(`${side} is in check.`);
+    lines.push(`Legal moves (${facts.legalMoves.length}): ${facts.legalMoves.join(', ')}`);
+    lines.push(`Moves that give check: ${facts.checkingMoves.length > 0 ? facts.checkingMoves.join(', ') : 'none'}`);
+  }
+
+  lines.push(
+    `Material: White ${facts.material.w}, Black ${facts.material.b} (${
+      balance === 0 ? 'equal' : `${balance > 0 ? 'White' : 'Black'} is up ${Math.abs(balance)}`
+    }; pawn = 1, knight/bishop = 3, rook = 5, queen = 9)`
+  );
+
+  // The side to move's pieces first, as they are the ones under threat
+  const opponent: Color = facts.turn === 'w' ? 'b' : 'w';
+  for (const color of [facts.turn, opponent]) {
+    const hanging = facts.hanging
+      .filter((piece) => piece.color === color)
+      .map(({ square, piece, attackers, defended }) =>
+        `${PIECE_NAMES[piece]} on ${square} (attacked from ${attackers.join(', ')}, ${
+          defended ? 'defended but attacked by a cheaper piece' : 'undefended'
+        })`
+      );
+    lines.push(`${COLOR_NAMES[color]} pieces that can be won: ${hanging.length > 0 ? hanging.join('; ') : 'none'}`);
+  }
+
+  if (threat !== undefined && !facts.isCheckmate && !facts.isStalemate) {
+    lines.push(describeThreat(threat, opponent));
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,163 @@
+import type { LlmMessage } from './llm';
+import { describeGame, estimateTokens, type GameRecord } from './gameContext';
+import { FULL_HINT, type HintLevel } from '../../src/tutor/hintLevels';
+import type { HintTarget } from './hints';
+import { describePosition, lineToSan, PIECE_NAMES, type PositionFacts, type ThreatFact } from './position';
+import type { EngineLine } from './serverEngine';
+
+/**
+ * Prompts for the tutor, built on the server. Clients only send the
+ * conversation and the position; the instructions and the facts about the
+ * position always come from here.
+ */
+
+const TUTOR_INSTRUCTIONS =
+  'You are an expert chess tutor who explains concepts clearly to beginners. Focus on the "why" behind moves. ' +
+  'Base what you say about the position on the verified facts you are given, and never recommend a move ' +
+  'that is not in the list of legal moves.';
+
+// For replies about a position, which are requested as TUTOR_REPLY_SCHEMA
+const REPLY_FORMAT =
+  'Reply with a JSON object. Put your answer, as plain text, in "explanation". In "moves", list up to 3 moves ' +
+  'for the side to move that your answer recommends or discusses, each with "san" in standard algebraic ' +
+  'notation exactly as in the list of legal moves and a short "reason". Leave "moves" empty if no move is relevant.';
+
+// Estimated tokens for a chat prompt: instructions, position, game and as much of the conversation as fits
+const CHAT_TOKEN_BUDGET = 3000;
+// Share of the budget left after the instructions and the question that the game may take
+const GAME_SHARE = 0.6;
+
+const GAME_INSTRUCTIONS =
+  'Use the game record for questions about earlier moves. If a question is about a move or an analysis ' +
+  'that is not in the record, say so rather than guessing.';
+
+export interface HintPrompt {
+  facts: PositionFacts;
+  opening?: string;
+  engineLines: EngineLine[];
+  threat?: ThreatFact | null;           // Undefined if no threat search was done
+  engineSource: 'server' | 'client';    // Where the engine lines came from
+  level: HintLevel;
+  target: HintTarget | null;            // The best move, which hints below the full one lead up to
+}
+
+/**
+ * An engine score in pawns from White's point of view, or the mate it announces.
+ */
+function formatScore({ type, value }: EngineLine['score'], turn: PositionFacts['turn']): string {
+  const forWhite = turn === 'w' ? value : -value;
+  if (type === 'mate') return `mate in ${Math.abs(forWhite)} for ${forWhite > 0 ? 'White' : 'Black'}`;
+  const pawns = (forWhite / 100).toFixed(2);
+  return `${forWhite > 0 ? '+' : ''}${pawns} for White`;
+}
+
+/**
+ * The engine's lines in SAN, checked move by move against the position.
+ */
+function describeEngineLines(facts: PositionFacts, engineLines: EngineLine[]): string {
+  const described = engineLines
+    .map((line) => ({ line, san: lineToSan(facts.fen, line.pv.slice(0, 4)) }))
+    .filter(({ san }) => san.length > 0)
+    .map(({ line, san }, index) =>
+      `Option ${index + 1}: ${san.join(' ')} (eval ${formatScore(line.score, facts.turn)}, depth ${line.depth})`
+    );
+  return described.length > 0 ? described.join('\n') : 'No engine analysis available.';
+}
+
+/**
+ * What to explain at each hint level. The partial hints only get as far
+ * as their level allows; without a best move to lead up to, they fall
+ * back to the general idea.
+ */
+function describeHintTask(level: HintLevel, target: HintTarget | null, opening?: string): string {
+  const piece = target && `${PIECE_NAMES[target.piece]} on ${target.from}`;
+  const noMoves = 'Do not name the best move or any move after it, and leave "moves" empty.';
+
+  if (level === 2 && target) {
+    return `This is the student's second hint. The best move is made with the ${piece}, which is highlighted on their board.
+In one or two sentences, explain why that piece deserves attention, without saying where it should go.
+${noMoves}`;
+  }
+  if (level === 3 && target) {
+    return `This is the student's third hint. The best move takes the ${piece} to ${target.to}; both squares are highlighted on their board.
+In two or three sentences, explain what the move aims at, without giving the moves that follow it.
+${noMoves}`;
+  }
+  if (level !== FULL_HINT) {
+    return `This hint must not give the answer away.
+In one or two sentences, point them to the general idea behind the best move, such as "look for a tactic on the kingside" or "think about the safety of your king".
+Do not name any move, piece or square, and leave "moves" empty.`;
+  }
+  return `Please explain:
+1. A brief overview of the current position (1-2 sentences).
+2. The top 2-3 candidate moves and WHY each is strong (compare offensive vs defensive, tactical vs positional).
+3. The main threat or opportunity the player should be thinking about.
+${opening ? '\nWhere it helps, relate the moves to the typical plans of this opening.\n' : ''}
+Keep the explanation under 150 words.`;
+}
+
+export function buildHintMessages({
+  facts,
+  opening,
+  engineLines,
+  engineSource,
+  threat,
+  level,
+  target,
+}: HintPrompt): LlmMessage[] {
+  const userPrompt = `You are a chess tutor helping a beginner.
+
+${describePosition(facts, threat)}
+${opening ? `Opening: ${opening}` : ''}
+
+Top moves according to ${engineSource === 'server' ? 'Stockfish' : "the student's browser engine"}:
+${describeEngineLines(facts, engineLines)}
+
+${describeHintTask(level, target, opening)}`;
+
+  return [
+    { role: 'system', content: `${TUTOR_INSTRUCTIONS}\n\n${REPLY_FORMAT}` },
+    { role: 'user', content: userPrompt },
+  ];
+}
+
+/**
+ * The conversation behind the server's instructions, with the facts of the
+ * position on the board when the client says which one it is, and the game
+ * so far when it sends one. The game and the earlier messages are cut to
+ * fit CHAT_TOKEN_BUDGET; the latest message is always kept.
+ */
+export function buildChatMessages(
+  messages: LlmMessage[],
+  facts: PositionFacts | null,
+  opening?: string,
+  threat?: ThreatFact | null,
+  game?: GameRecord,
+): LlmMessage[] {
+  const context = [
+    TUTOR_INSTRUCTIONS,
+    'Answer questions clearly and educationally, keeping responses under 150 words unless a detailed explanation is specifically requested.',
+  ];
+  if (facts) context.push(`The position on the board:\n${describePosition(facts, threat)}`, REPLY_FORMAT);
+  if (opening) context.push(`The game is a ${opening}; refer to the typical plans of this opening where they help.`);
+
+  const question = messages[messages.length - 1];
+  let available = CHAT_TOKEN_BUDGET - estimateTokens(context.join('\n\n')) - estimateTokens(question.content);
+
+  const described = game ? describeGame(game, Math.floor(Math.max(0, available) * GAME_SHARE)) : '';
+  if (described) {
+    const section = `The game so far:\n${described}\n\n${GAME_INSTRUCTIONS}`;
+    context.push(section);
+    available -= estimateTokens(section);
+  }
+
+  // Earlier messages, newest first, for as long as they fit
+  const history: LlmMessage[] = [];
+  for (const message of messages.slice(0, -1).reverse()) {
+    available -= estimateTokens(message.content);
+    if (available < 0) break;
+    history.unshift(message);
+  }
+
+  return [{ role: 'system', content: context.join('\n\n') }, ...history, question];
+}
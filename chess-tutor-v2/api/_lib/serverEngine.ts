@@ -0,0 +1,110 @@
+import { spawn } from 'node:child_process';
+import { createInterface } from 'node:readline';
+import type { EngineScore } from '../../src/engine/engineScore';
+import { isThreat, nullMoveFen } from '../../src/engine/threatRules';
+
+/**
+ * Optional native Stockfish on the server, for hints that don't depend on
+ * the browser's engine. Set STOCKFISH_BIN to the engine's executable to
+ * enable it; without it the tutor uses the lines the client sends.
+ */
+
+/**
+ * A principal variation, scored for the side to move as UCI reports it.
+ */
+export interface EngineLine {
+  depth: number;
+  score: EngineScore;
+  pv: string[];           // UCI moves
+}
+
+/**
+ * What the opponent would play if the side to move passed, scored for the
+ * opponent.
+ */
+export interface EngineThreat {
+  move: string;           // UCI
+  score: EngineLine['score'];
+}
+
+interface ServerSearchOptions {
+  depth?: number;
+  multiPv?: number;
+  timeoutMs?: number;     // Stops the search and uses what it has found by then
+}
+
+const INFO_PATTERN = /\bdepth (\d+)\b.*\bmultipv (\d+)\b.*\bscore (cp|mate) (-?\d+)\b.*\bpv (.+)$/;
+
+/**
+ * Searches `fen` with the native engine and resolves with its lines, best
+ * first, or null if the engine isn't configured or fails.
+ */
+export function analyzeOnServer(
+  fen: string,
+  { depth = 15, multiPv = 3, timeoutMs = 5000 }: ServerSearchOptions = {},
+): Promise<EngineLine[] | null> {
+  const binary = process.env.STOCKFISH_BIN;
+  if (!binary) return Promise.resolve(null);
+
+  return new Promise((resolve) => {
+    const engine = spawn(binary, [], { stdio: ['pipe', 'pipe', 'ignore'] });
+    const lines = new Map<number, EngineLine>();
+    let settled = false;
+    const send = (command: string) => {
+      if (!settled) engine.stdin.write(`${command}\n`);
+    };
+
+    const finish = (result: EngineLine[] | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      engine.kill();
+      resolve(result);
+    };
+    const timer = setTimeout(() => {
+      send('stop');
+      setTimeout(() => finish(null), 1000);   // Unresponsive
+    }, timeoutMs);
+
+    engine.on('error', (error) => {
+      console.error('Stockfish failed:', error);
+      finish(null);
+    });
+    engine.on('exit', () => finish(null));   // Exited before answering
+    engine.stdin.on('error', () => finish(null));
+
+    createInterface({ input: engine.stdout }).on('line', (line) => {
+      const info = line.startsWith('info') ? INFO_PATTERN.exec(line) : null;
+      if (info) {
+        lines.set(Number(info[2]), {
+          depth: Number(info[1]),
+          score: { type: info[3] as 'cp' | 'mate', value: Number(info[4]) },
+          pv: info[5].trim().split(/\s+/),
+        });
+      } else if (line.startsWith('bestmove')) {
+        finish([...lines.entries()].sort(([a], [b]) => a - b).map(([, engineLine]) => engineLine));
+      }
+    });
+
+    send('uci');
+    send(`setoption name MultiPV value ${multiPv}`);
+    send('ucinewgame');
+    send(`position fen ${fen}`);
+    send(`go depth ${depth}`);
+  });
+}
+
+/**
+ * The opponent's threat in `fen` by a null-move search with the native
+ * engine: null if there is none worth pointing out, or if the engine isn't
+ * available. `current` is the side to move's score in `fen`.
+ */
+export async function findThreatOnServer(fen: string, current: EngineLine['score']): Promise<EngineThreat | null> {
+  const passedFen = nullMoveFen(fen);
+  if (!passedFen) return null; // In check; the threat is on the board already
+
+  const [line] = (await analyzeOnServer(passedFen, { depth: 12, multiPv: 1 })) ?? [];
+  if (!line?.pv[0]) return null;
+  if (!isThreat(line.score, current)) return null;
+  return { move: line.pv[0], score: line.score };
+}
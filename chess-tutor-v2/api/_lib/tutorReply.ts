@@ -0,0 +1,156 @@
+import { Chess, type Move } from 'chess.js';
+import type { JsonSchema } from './llm';
+import { lineToSan } from './position';
+import type { EngineLine } from './serverEngine';
+
+/**
+ * Structured tutor replies: an explanation plus the moves it recommends.
+ * The model's moves are checked against the position before they reach
+ * the client; ones that can't be matched to a legal move are dropped.
+ */
+
+export const MAX_TUTOR_MOVES = 3;
+
+export const TUTOR_REPLY_SCHEMA: JsonSchema = {
+  name: 'tutor_reply',
+  schema: {
+    type: 'object',
+    properties: {
+      explanation: { type: 'string' },
+      moves: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            san: { type: 'string' },
+            reason: { type: 'string' },
+          },
+          required: ['san', 'reason'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['explanation', 'moves'],
+    additionalProperties: false,
+  },
+};
+
+/**
+ * A legal move suggested by the tutor.
+ */
+export interface TutorMove {
+  san: string;
+  uci: string;
+  reason?: string;
+  line?: string[];        // The engine's line starting with this move, in UCI, if it had one
+}
+
+export interface TutorReply {
+  explanation: string;
+  moves: { san: string; reason?: string }[];
+}
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+/**
+ * The reply as the model wrote it. A reply that isn't the requested JSON
+ * is kept as the explanation, without moves.
+ */
+export function parseTutorReply(text: string): TutorReply {
+  try {
+    const reply = JSON.parse(text) as Partial<TutorReply>;
+    if (typeof reply.explanation === 'string') {
+      const moves = Array.isArray(reply.moves) ? reply.moves.filter((move) => typeof move?.san === 'string') : [];
+      return { explanation: reply.explanation, moves };
+    }
+  } catch {
+    // Not JSON; fall through
+  }
+  return { explanation: text, moves: [] };
+}
+
+/**
+ * The explanation written so far, read from incomplete JSON while the
+ * reply is streamed in. Text that doesn't start as a JSON object is
+ * returned as it is.
+ */
+export function readPartialExplanation(text: string): string {
+  const trimmed = text.trimStart();
+  if (trimmed && !trimmed.startsWith('{')) return text;
+
+  const start = /"explanation"\s*:\s*"/.exec(text);
+  if (!start) return '';
+
+  let explanation = '';
+  for (let i = start.index + start[0].length; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      explanation += char;
+      continue;
+    }
+    // Escape sequence; stop if it hasn't fully arrived yet
+    const escaped = text[i + 1];
+    if (escaped === undefined) break;
+    if (escaped === 'u') {
+      if (i + 6 > text.length) break;
+      explanation += String.fromCharCode(parseInt(text.slice(i + 2, i + 6), 16));
+      i += 5;
+    } else {
+      explanation += ESCAPES[escaped] ?? escaped;
+      i += 1;
+    }
+  }
+  return explanation;
+}
+
+/**
+ * SAN reduced to what identifies the move: no check, capture or
+ * annotation marks, and castling written with letter O.
+ */
+function normalizeSan(san: string): string {
+  return san.trim().replace(/0/g, 'O').replace(/[+#x=!?\s]|e\.p\./g, '');
+}
+
+/**
+ * The legal move `text` stands for. Besides exact SAN this accepts UCI and
+ * SAN with missing, extra or wrong disambiguation, as long as only one
+ * move of that piece goes to that square.
+ */
+function findLegalMove(legalMoves: Move[], text: string): Move | undefined {
+  const wanted = normalizeSan(text);
+  const exact = legalMoves.find((move) => normalizeSan(move.san) === wanted || move.lan === text.trim().toLowerCase());
+  if (exact) return exact;
+
+  const target = /([a-h][1-8])([QRBN])?$/.exec(wanted);
+  if (!target) return undefined;
+  const piece = /^[KQRBN]/.test(wanted) ? wanted[0].toLowerCase() : 'p';
+  const promotion = target[2]?.toLowerCase();
+  const matches = legalMoves.filter(
+    (move) => move.to === target[1] && move.piece === piece && move.promotion === promotion
+  );
+  return matches.length === 1 ? matches[0] : undefined;
+}
+
+/**
+ * The suggested moves that are legal in `fen`, in correct SAN, without
+ * repeats and at most MAX_TUTOR_MOVES of them. Moves the engine also
+ * found get its line, up to the first illegal move in it.
+ */
+export function checkTutorMoves(
+  fen: string,
+  suggested: TutorReply['moves'],
+  engineLines: EngineLine[] = [],
+): TutorMove[] {
+  const legalMoves = new Chess(fen).moves({ verbose: true });
+  const checked: TutorMove[] = [];
+  for (const { san, reason } of suggested) {
+    const move = findLegalMove(legalMoves, san);
+    if (!move || checked.some((existing) => existing.uci === move.lan)) continue;
+    const pv = engineLines.find((line) => line.pv[0] === move.lan)?.pv;
+    const line = pv?.slice(0, lineToSan(fen, pv).length);
+    checked.push({ san: move.san, uci: move.lan, reason: reason || undefined, line });
+    if (checked.length === MAX_TUTOR_MOVES) break;
+  }
+  return checked;
+}
@@ -0,0 +1,252 @@
+import { DEFAULT_POSITION, validateFen } from 'chess.js';
+import type { LlmMessage } from './llm';
+import type { EngineLine, EngineThreat } from './serverEngine';
+import { FULL_HINT, type HintLevel } from '../../src/tutor/hintLevels';
+import { findIllegalMove, MOVE_CLASSIFICATIONS, type AnalyzedMove, type GameRecord } from './gameContext';
+
+/**
+ * Validation of /api/chess-tutor request bodies, so malformed or oversized
+ * input is answered with a 4xx instead of reaching the model.
+ */
+
+export const MAX_MESSAGES = 40;
+export const MAX_MESSAGE_LENGTH = 8000;     // Characters per message
+export const MAX_TEXT_LENGTH = 4000;        // Characters for the other text fields
+export const MAX_ENGINE_LINES = 5;
+export const MAX_LINE_MOVES = 30;
+export const MAX_GAME_MOVES = 600;          // Plies of a game sent as chat context
+
+// The system prompt is the server's; clients only send their side of the conversation
+const ROLES: LlmMessage['role'][] = ['user', 'assistant'];
+
+const UCI_MOVE = /^[a-h][1-8][a-h][1-8][qrbn]?$/;
+
+export interface ChatRequestBody {
+  messages: LlmMessage[];
+  fen?: string;                      // Position on the board, for the tutor to refer to
+  opening?: string;
+  threat?: EngineThreat | null;      // The opponent's threat in `fen`; null if the browser found none
+  game?: GameRecord;                 // The game so far, for questions about earlier moves
+  stream?: boolean;                  // Reply as Server-Sent Events
+}
+
+export interface HintRequestBody {
+  fen: string;
+  opening?: string;
+  engineLines?: EngineLine[];        // The browser engine's lines, used without a server engine
+  threat?: EngineThreat | null;
+  level?: HintLevel;                 // How much of the answer to give away; the full hint if left out
+  stream?: boolean;
+}
+
+/**
+ * A chat if it has `messages`, otherwise a hint for `fen`.
+ */
+export type TutorRequestBody = ChatRequestBody | HintRequestBody;
+
+/**
+ * A request the client got wrong, answered with `status`.
+ */
+export class RequestError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'RequestError';
+    this.status = status;
+  }
+}
+
+function optionalString(body: Record<string, unknown>, field: string): string | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') throw new RequestError(400, `${field} must be a string`);
+  if (value.length > MAX_TEXT_LENGTH) {
+    throw new RequestError(413, `${field} is longer than ${MAX_TEXT_LENGTH} characters`);
+  }
+  return value;
+}
+
+function optionalBoolean(body: Record<string, unknown>, field: string): boolean | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'boolean') throw new RequestError(400, `${field} must be true or false`);
+  return value;
+}
+
+function optionalFen(body: Record<string, unknown>): string | undefined {
+  const fen = optionalString(body, 'fen');
+  if (fen === undefined) return undefined;
+  const { ok, error } = validateFen(fen);
+  if (!ok) throw new RequestError(400, error ?? 'Invalid FEN');
+  return fen;
+}
+
+function optionalHintLevel(body: Record<string, unknown>): HintLevel | undefined {
+  const { level } = body;
+  if (level === undefined || level === null) return undefined;
+  if (!Number.isInteger(level) || (level as number) < 1 || (level as number) > FULL_HINT) {
+    throw new RequestError(400, `level must be a whole number from 1 to ${FULL_HINT}`);
+  }
+  return level as HintLevel;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+}
+
+function isEngineScore(value: unknown): value is EngineLine['score'] {
+  const { type, value: scoreValue } = asRecord(value);
+  return (type === 'cp' || type === 'mate') && Number.isInteger(scoreValue);
+}
+
+function isUciMove(value: unknown): value is string {
+  return typeof value === 'string' && UCI_MOVE.test(value);
+}
+
+function validateEngineLines(value: unknown): EngineLine[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) throw new RequestError(400, 'engineLines must be an array');
+  if (value.length > MAX_ENGINE_LINES) {
+    throw new RequestError(413, `At most ${MAX_ENGINE_LINES} engine lines are allowed`);
+  }
+  return value.map((line: unknown, index) => {
+    const { depth, score, pv } = asRecord(line);
+    if (!Number.isInteger(depth) || !isEngineScore(score)) {
+      throw new RequestError(400, `engineLines[${index}] must have an integer depth and a cp or mate score`);
+    }
+    if (!Array.isArray(pv) || pv.length > MAX_LINE_MOVES || !pv.every(isUciMove)) {
+      throw new RequestError(400, `engineLines[${index}].pv must be at most ${MAX_LINE_MOVES} moves in UCI notation`);
+    }
+    return { depth: depth as number, score: { type: score.type, value: score.value }, pv };
+  });
+}
+
+function validateThreat(value: unknown): EngineThreat | null | undefined {
+  if (value === undefined || value === null) return value;
+  const { move, score } = asRecord(value);
+  if (!isUciMove(move) || !isEngineScore(score)) {
+    throw new RequestError(400, 'threat must have a UCI move and a cp or mate score');
+  }
+  return { move, score: { type: score.type, value: score.value } };
+}
+
+function validateAnalysis(value: unknown, moveCount: number): AnalyzedMove[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.length > moveCount) {
+    throw new RequestError(400, 'game.analysis must be an array with at most one entry per move');
+  }
+  return value.map((entry: unknown, index) => {
+    const { classification, evaluation, bestMove } = asRecord(entry);
+    if (!MOVE_CLASSIFICATIONS.includes(classification as AnalyzedMove['classification'])) {
+      throw new RequestError(400, `game.analysis[${index}].classification must be one of ${MOVE_CLASSIFICATIONS.join(', ')}`);
+    }
+    if (typeof evaluation !== 'number' || !Number.isFinite(evaluation)) {
+      throw new RequestError(400, `game.analysis[${index}].evaluation must be a number`);
+    }
+    if (bestMove !== undefined && bestMove !== null && (typeof bestMove !== 'string' || bestMove.length > 10)) {
+      throw new RequestError(400, `game.analysis[${index}].bestMove must be a move in SAN`);
+    }
+    return {
+      classification: classification as AnalyzedMove['classification'],
+      evaluation: Math.round(evaluation),
+      bestMove: bestMove ?? undefined,
+    };
+  });
+}
+
+function validateGame(value: unknown): GameRecord | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object' || Array.isArray(value)) throw new RequestError(400, 'game must be an object');
+  const fields = value as Record<string, unknown>;
+
+  const startFen = optionalString(fields, 'startFen') ?? DEFAULT_POSITION;
+  const { ok, error } = validateFen(startFen);
+  if (!ok) throw new RequestError(400, `game.startFen: ${error ?? 'Invalid FEN'}`);
+
+  const { moves, ply } = fields;
+  if (!Array.isArray(moves) || !moves.every((san) => typeof san === 'string')) {
+    throw new RequestError(400, 'game.moves must be an array of moves in SAN');
+  }
+  if (moves.length > MAX_GAME_MOVES) {
+    throw new RequestError(413, `game.moves may have at most ${MAX_GAME_MOVES} moves`);
+  }
+  const illegal = findIllegalMove(startFen, moves);
+  if (illegal >= 0) throw new RequestError(400, `game.moves[${illegal}] is not a legal move`);
+
+  if (ply !== undefined && ply !== null) {
+    if (!Number.isInteger(ply) || (ply as number) < 0 || (ply as number) > moves.length) {
+      throw new RequestError(400, 'game.ply must be a ply of the game');
+    }
+  }
+
+  return {
+    startFen,
+    moves,
+    ply: (ply as number | null | undefined) ?? undefined,
+    analysis: validateAnalysis(fields.analysis, moves.length),
+    summary: optionalString(fields, 'summary'),
+  };
+}
+
+function validateMessages(value: unknown): LlmMessage[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new RequestError(400, 'messages must be a non-empty array');
+  }
+  if (value.length > MAX_MESSAGES) {
+    throw new RequestError(413, `At most ${MAX_MESSAGES} messages are allowed`);
+  }
+  return value.map((message: unknown, index) => {
+    if (typeof message !== 'object' || message === null) {
+      throw new RequestError(400, `messages[${index}] must be an object`);
+    }
+    const { role, content } = message as Record<string, unknown>;
+    if (!ROLES.includes(role as LlmMessage['role'])) {
+      throw new RequestError(400, `messages[${index}].role must be one of ${ROLES.join(', ')}`);
+    }
+    if (typeof content !== 'string' || content.trim() === '') {
+      throw new RequestError(400, `messages[${index}].content must be a non-empty string`);
+    }
+    if (content.length > MAX_MESSAGE_LENGTH) {
+      throw new RequestError(413, `messages[${index}] is longer than ${MAX_MESSAGE_LENGTH} characters`);
+    }
+    return { role: role as LlmMessage['role'], content };
+  });
+}
+
+/**
+ * Checks a request body and returns it with only the known fields.
+ * Throws a RequestError describing the first problem found.
+ */
+export function validateTutorRequest(body: unknown): TutorRequestBody {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new RequestError(400, 'Request body must be a JSON object');
+  }
+  const fields = body as Record<string, unknown>;
+  const stream = optionalBoolean(fields, 'stream');
+
+  const fen = optionalFen(fields);
+  const opening = optionalString(fields, 'opening');
+  const threat = validateThreat(fields.threat);
+
+  if (fields.messages !== undefined) {
+    return {
+      messages: validateMessages(fields.messages),
+      fen,
+      opening,
+      threat,
+      game: validateGame(fields.game),
+      stream,
+    };
+  }
+
+  if (!fen) throw new RequestError(400, 'FEN is required');
+  return {
+    fen,
+    opening,
+    engineLines: validateEngineLines(fields.engineLines),
+    threat,
+    level: optionalHintLevel(fields),
+    stream,
+  };
+}
@@ -1,9 +1,102 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import OpenAI from 'openai';
+import { FULL_HINT } from '../src/tutor/hintLevels';
+import { findHintTarget, getHintFocus, type HintFocus } from './_lib/hints';
+import { getLlmProvider, type CompletionRequest } from './_lib/llm';
+import { getPositionFacts, verifyThreat, type ThreatFact } from './_lib/position';
+import { buildChatMessages, buildHintMessages } from './_lib/prompts';
+import { analyzeOnServer, findThreatOnServer, type EngineThreat } from './_lib/serverEngine';
+import {
+  checkTutorMoves,
+  parseTutorReply,
+  readPartialExplanation,
+  TUTOR_REPLY_SCHEMA,
+  type TutorMove,
+  type TutorReply,
+} from './_lib/tutorReply';
+import { RequestError, validateTutorRequest } from './_lib/validation';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Turns the moves of a structured reply into legal moves for the client
+type MoveChecker = (suggested: TutorReply['moves']) => TutorMove[];
+
+/**
+ * Sends the completion to the client as Server-Sent Events while it is
+ * generated. Each event is `data: {"delta": "..."}`, an error is sent as
+ * `data: {"error": "..."}`, and the stream ends with `data: [DONE]`.
+ * Closing the connection cancels the completion.
+ *
+ * With `checkMoves`, the completion is a structured reply about a position:
+ * only its explanation is streamed, and the legal moves it suggests follow
+ * as `data: {"moves": [...]}` before the end, together with the squares a
+ * partial hint highlights as `"focus"`.
+ */
+async function streamCompletion(
+  res: NextApiResponse,
+  request: CompletionRequest,
+  checkMoves?: MoveChecker,
+  focus?: HintFocus,
+) {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+  });
+  const send = (data: string) => res.write(`data: ${data}\n\n`);
+
+  try {
+    let text = '';
+    let sent = 0;
+    const sendExplanation = (explanation: string) => {
+      if (explanation.length <= sent) return;
+      send(JSON.stringify({ delta: explanation.slice(sent) }));
+      sent = explanation.length;
+    };
+
+    for await (const delta of getLlmProvider().stream(request, controller.signal)) {
+      if (!checkMoves) {
+        send(JSON.stringify({ delta }));
+        continue;
+      }
+      text += delta;
+      sendExplanation(readPartialExplanation(text));
+    }
+    if (checkMoves) {
+      const reply = parseTutorReply(text);
+      sendExplanation(reply.explanation);
+      send(JSON.stringify({ moves: checkMoves(reply.moves), focus }));
+    }
+    send('[DONE]');
+  } catch (error) {
+    if (controller.signal.aborted) return; // The client went away
+    console.error('API streaming error:', error);
+    send(JSON.stringify({ error: 'Failed to generate analysis' }));
+  }
+  res.end();
+}
+
+/**
+ * A threat checked against `fen`. Undefined if there was none to check
+ * or it turned out not to be a legal move.
+ */
+function checkThreat(fen: string, threat: EngineThreat | null | undefined): ThreatFact | null | undefined {
+  if (!threat) return threat;
+  return verifyThreat(fen, threat) ?? undefined;
+}
+
+/**
+ * The whole completion as `{ message }`, with the checked `moves` (and a
+ * partial hint's `focus`) when it is a structured reply about a position.
+ */
+async function completeReply(request: CompletionRequest, checkMoves?: MoveChecker, focus?: HintFocus) {
+  const text = await getLlmProvider().complete(request);
+  if (!checkMoves) return { message: text };
+  const reply = parseTutorReply(text);
+  return { message: reply.explanation, moves: checkMoves(reply.moves), focus };
+}
 
 export default async function handler(
   req: NextApiRequest,
@@ -14,60 +107,74 @@ export default async function handler(
   }
 
   try {
-    // 1. Get FEN and the CLIENT-SIDE analysis
-    const { fen, turn, inCheck, stockfishAnalysis, messages } = req.body;
+    // 1. Validate the request: a chat, or a FEN with the CLIENT-SIDE analysis
+    // `stream: true` asks for Server-Sent Events instead of a single JSON reply.
+    const body = validateTutorRequest(req.body);
+    const { stream } = body;
 
     // Handle general chat (no position analysis specifically requested)
-    if (messages) {
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4o-mini', // or gpt-3.5-turbo
-        messages: messages,
-      });
-      return res.status(200).json({ message: completion.choices[0].message.content });
+    if ('messages' in body) {
+      // Questions about the position on the board get a structured reply
+      const { fen } = body;
+      const facts = fen ? getPositionFacts(fen) : null;
+      const threat = fen ? checkThreat(fen, body.threat) : undefined;
+      const request: CompletionRequest = {
+        messages: buildChatMessages(body.messages, facts, body.opening, threat, body.game),
+        jsonSchema: facts ? TUTOR_REPLY_SCHEMA : undefined,
+      };
+      const checkMoves = fen ? (suggested: TutorReply['moves']) => checkTutorMoves(fen, suggested) : undefined;
+      if (stream) return await streamCompletion(res, request, checkMoves);
+      return res.status(200).json(await completeReply(request, checkMoves));
     }
 
     // Handle "Get Hint" Request
-    if (!fen || !turn) {
-      return res.status(400).json({ error: 'FEN and turn are required' });
-    }
-
-    // 2. Build the prompt using the analysis passed from the client
-    const systemPrompt =
-      'You are an expert chess tutor who explains concepts clearly to beginners. Focus on the "why" behind moves.';
-    
-    const userPrompt = `You are a chess tutor helping a beginner.
-
-Current Position (FEN): ${fen}
-Turn to move: ${turn === 'w' ? 'White' : 'Black'}
-${inCheck ? 'The king is in check!' : ''}
-
-Top moves according to analysis:
-${stockfishAnalysis}
+    // 2. Work out the facts of the position; the server's own engine, if
+    // there is one, replaces the lines and the threat the client sent
+    const { fen } = body;
+    const facts = getPositionFacts(fen);
+    const serverLines = await analyzeOnServer(fen);
+    const engineLines = serverLines ?? body.engineLines ?? [];
+    const threat = serverLines?.[0]
+      ? checkThreat(fen, await findThreatOnServer(fen, serverLines[0].score))
+      : checkThreat(fen, body.threat);
 
-Please explain:
-1. A brief overview of the current position (1-2 sentences).
-2. The top 2-3 candidate moves and WHY each is strong (compare offensive vs defensive, tactical vs positional).
-3. The main threat or opportunity the player should be thinking about.
+    // 3. Work out how much of the best move this hint may give away
+    const level = body.level ?? FULL_HINT;
+    const target = findHintTarget(fen, engineLines);
+    const focus = getHintFocus(target, level);
 
-Keep it under 150 words.`;
-
-    // 3. Call OpenAI
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt },
-      ],
+    // 4. Ask the configured model
+    const request: CompletionRequest = {
+      messages: buildHintMessages({
+        facts,
+        opening: body.opening,
+        engineLines,
+        engineSource: serverLines ? 'server' : 'client',
+        threat,
+        level,
+        target,
+      }),
       temperature: 0.7,
-      max_tokens: 300,
-    });
-
-    const explanation = completion.choices[0].message.content;
-
-    res.status(200).json({ message: explanation });
+      maxTokens: 400,        // Room for the JSON around the explanation
+      jsonSchema: TUTOR_REPLY_SCHEMA,
+    };
+    // Suggested moves the engine also found come with its line, to try out.
+    // Partial hints suggest none, whatever the model wrote.
+    const checkMoves = (suggested: TutorReply['moves']) =>
+      level === FULL_HINT ? checkTutorMoves(fen, suggested, engineLines) : [];
+    if (stream) return await streamCompletion(res, request, checkMoves, focus);
+    res.status(200).json(await completeReply(request, checkMoves, focus));
     
   } catch (error) {
+    if (error instanceof RequestError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error('API route error:', error);
+    // A stream that has already started can only be ended with an error event
+    if (res.headersSent) {
+      if (!res.writableEnded) res.end(`data: ${JSON.stringify({ error: 'Failed to generate analysis' })}\n\n`);
+      return;
+    }
     res.status(500).json({ error: 'Failed to generate analysis' });
   }
 }
\ No newline at end of file
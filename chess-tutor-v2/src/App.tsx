@@ -1,5 +1,5 @@
 import './App.css'
-import ChessTutorPage from './pages/ChessTutorPage/ChessTutorPage'
+import ChessTutorPage from './Pages/ChessTutorPage/ChessTutorPage'
 
 
 
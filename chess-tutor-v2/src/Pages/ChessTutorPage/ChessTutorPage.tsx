@@ -1,70 +1,468 @@
-import { useState } from 'react';
-import { Chess } from 'chess.js';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Chess, DEFAULT_POSITION } from 'chess.js';
 import ChessTutorGame from "../../components/ChessTutorGame";
-import ChessAiTutor from "../../components/ChessAITutor"; 
+import ChessAiTutor from "../../components/ChessAITutor";
 import GameAnalysisPanel from "../../components/GameAnalysisPanel";
+import PgnPanel from "../../components/PgnPanel";
+import BoardEditor from "../../components/BoardEditor";
+import GameLibrary from "../../components/GameLibrary";
+import PuzzleTrainer from "../../components/PuzzleTrainer";
+import SandboxBoard from "../../components/SandboxBoard";
+import { buildGamePgn, writePgn, type PgnGame, type PgnMove } from '../../chess/pgn';
+import type { GameOutcome } from '../../chess/outcome';
+import { computeAccuracy } from '../../chess/accuracy';
+import { getMainline, getPath } from '../../chess/moveTree';
+import { findOpening } from '../../chess/openings';
+import { createGameId, loadCurrentGame, saveGame, setCurrentGameId } from '../../storage/gameStore';
+import type { Threat } from '../../engine/threats';
+import type { GameAnalysis } from '../../types/analysis';
+import type { ChatMessage, GameSession, SavedGame } from '../../types/savedGame';
+import type { HintLevel } from '../../tutor/hintLevels';
+import type { HintFocus } from '../../tutor/tutorClient';
+
+const NO_HINTS: Record<HintLevel, number> = { 1: 0, 2: 0, 3: 0, 4: 0 };
 
 export function ChessTutorPage() {
     const [game, setGame] = useState(new Chess());
     const [fen, setFen] = useState(game.fen());
     const [actualMovesPlayed, setActualMovesPlayed] = useState<string[]>([]);
     const [completedGameMoves, setCompletedGameMoves] = useState<string[]>([]);
+    // How the completed game ended, reported along with its moves
+    const [gameOutcome, setGameOutcome] = useState<GameOutcome | null>(null);
     const [showAnalysis, setShowAnalysis] = useState(false);
 
-    const handleGameComplete = (moves: string[]) => {
+    // Position the current game started from (custom for imported games)
+    const [startFen, setStartFen] = useState(DEFAULT_POSITION);
+    // Player names for PGN export, reported by ChessTutorGame
+    const [players, setPlayers] = useState({ white: 'You', black: 'AI' });
+    // Analysis of the completed game, once GameAnalysisPanel has run it
+    const [analysis, setAnalysis] = useState<GameAnalysis[]>([]);
+    // Set by the analysis panel to move the board to a position of the game
+    const [jumpToPly, setJumpToPly] = useState<{ ply: number } | null>(null);
+    // Move the tutor suggested that was clicked, drawn on the board in its position
+    const [tutorMove, setTutorMove] = useState<{ fen: string; uci: string } | null>(null);
+    // Latest threat the tutor found, drawn as a red arrow in its position
+    const [threat, setThreat] = useState<Threat | null>(null);
+    const threatMove = useMemo(() => threat && { fen: threat.fen, uci: threat.move }, [threat]);
+    // Squares the tutor's last hint points at, highlighted in its position
+    const [hintFocus, setHintFocus] = useState<(HintFocus & { fen: string }) | null>(null);
+    // Line being tried on the sandbox board, which is shown in place of the game
+    const [sandbox, setSandbox] = useState<{ fen: string; line: string[] } | null>(null);
+    const [sandboxFen, setSandboxFen] = useState<string | null>(null);
+    // Bumped to start a fresh sandbox for each line tried
+    const [sandboxKey, setSandboxKey] = useState(0);
+    // Headers, comments and variations of an imported PGN
+    const [importedPgn, setImportedPgn] = useState<PgnGame | null>(null);
+    // Bumped to remount the board when a game is loaded from outside
+    const [gameKey, setGameKey] = useState(0);
+    // Side the human plays when a game is loaded from outside
+    const [initialPlayerColor, setInitialPlayerColor] = useState<'w' | 'b' | undefined>();
+
+    // Setup mode: the board editor is shown in place of the game while open
+    const [showSetup, setShowSetup] = useState(false);
+    const [setupFen, setSetupFen] = useState<string | null>(null);
+
+    // The tutor follows the sandbox, or the position being edited while in setup mode
+    const tutorFen = sandbox && sandboxFen ? sandboxFen : showSetup && setupFen ? setupFen : fen;
+
+    // Autosave: the game is written to IndexedDB as it changes, under this id
+    const [gameId, setGameId] = useState(createGameId);
+    const [createdAt, setCreatedAt] = useState(() => Date.now());
+    // Board, tutor and analysis state reported by the child components
+    const [session, setSession] = useState<GameSession | null>(null);
+    const [chat, setChat] = useState<ChatMessage[]>([]);
+    const [hintsUsed, setHintsUsed] = useState(NO_HINTS);
+    const [summary, setSummary] = useState('');
+    // State handed to the children when a saved game is reopened
+    const [savedSession, setSavedSession] = useState<GameSession | null>(null);
+    const [savedChat, setSavedChat] = useState<ChatMessage[]>([]);
+    // Nothing is saved until the last game has been resumed, so it isn't overwritten
+    const [isRestored, setIsRestored] = useState(false);
+    const [libraryKey, setLibraryKey] = useState(0);
+    // Bumped to reload the puzzle trainer when an analysis adds puzzles
+    const [puzzleKey, setPuzzleKey] = useState(0);
+
+    // Analysis and outcome only belong to the game if they cover the moves on the board
+    const analysisMatches = completedGameMoves.join(' ') === actualMovesPlayed.join(' ');
+    const outcome = analysisMatches ? gameOutcome : null;
+    const result = outcome?.result ?? importedPgn?.result ?? '*';
+
+    // Sides played by a human, whose mistakes become puzzles. Imported games
+    // are assumed to be the user's own, from either side.
+    const puzzleColors: ('w' | 'b')[] =
+        importedPgn || session?.gameMode === 'hotseat' ? ['w', 'b']
+        : session?.gameMode === 'ai-vs-ai' ? []
+        : [session?.playerColor ?? 'w'];
+
+    // Opening of the position on the board, for the tutor (none while editing a setup or in the sandbox)
+    const tutorOpening = useMemo(
+        () => (session && !showSetup && !sandbox
+            ? findOpening(getPath(session.moveTree, session.currentNodeId).map((node) => node.fen))
+            : null),
+        [session, showSetup, sandbox]
+    );
+
+    // Ply of the position on the board, when it is on the main line
+    const boardPly = useMemo(() => {
+        if (!session) return null;
+        const node = session.moveTree.nodes[session.currentNodeId];
+        const onMainline = node.ply === 0 || getMainline(session.moveTree)[node.ply - 1]?.id === node.id;
+        return onMainline ? node.ply : null;
+    }, [session]);
+
+    // The game so far for the tutor's chat, with the analysis once it covers these moves
+    const tutorGame = useMemo(
+        () => (showSetup ? null : {
+            startFen,
+            moves: actualMovesPlayed,
+            analysis: analysisMatches && analysis.length > 0
+                ? analysis.map(({ classification, evaluation, bestMove }) => ({ classification, evaluation, bestMove }))
+                : undefined,
+            summary: analysisMatches && summary ? summary : undefined,
+        }),
+        [showSetup, startFen, actualMovesPlayed, analysisMatches, analysis, summary]
+    );
+
+    /**
+     * Gives the game on the board a fresh id, so it is saved as a new game.
+     */
+    const startNewRecord = () => {
+        setGameId(createGameId());
+        setCreatedAt(Date.now());
+        setSavedSession(null);
+        setSavedChat([]);
+        setChat([]);
+        setHintsUsed(NO_HINTS);
+        setSummary('');
+    };
+
+    /**
+     * Puts a saved game back on the board, with its chat and analysis.
+     */
+    const openSavedGame = useCallback((saved: SavedGame) => {
+        const restored = new Chess(saved.startFen);
+        const movesOnBoard = saved.session
+            ? getPath(saved.session.moveTree, saved.session.currentNodeId).map((node) => node.san)
+            : saved.moves;
+        movesOnBoard.forEach((san) => restored.move(san));
+        const finished = saved.result !== '*' || saved.analysis.length > 0;
+
+        setGameId(saved.id);
+        setCreatedAt(saved.createdAt);
+        setStartFen(saved.startFen);
+        setGame(restored);
+        setFen(restored.fen());
+        setActualMovesPlayed(saved.moves);
+        setSavedSession(saved.session);
+        setSavedChat(saved.chat);
+        setChat(saved.chat);
+        setHintsUsed(saved.hintsUsed ?? NO_HINTS);
+        setImportedPgn(saved.importedPgn);
+        setAnalysis(saved.analysis);
+        setSummary(saved.summary);
+        setCompletedGameMoves(finished ? saved.moves : []);
+        setGameOutcome(saved.outcome ?? null);
+        setShowAnalysis(finished && saved.moves.length > 0);
+        setInitialPlayerColor(undefined);
+        setShowSetup(false);
+        setGameKey((key) => key + 1);
+    }, []);
+
+    /**
+     * Resumes the game that was open when the page was last closed.
+     */
+    useEffect(() => {
+        let cancelled = false;
+        loadCurrentGame()
+            .then((saved) => {
+                if (!cancelled && saved) openSavedGame(saved);
+            })
+            .catch((error) => console.error('Could not resume the last game:', error))
+            .finally(() => {
+                if (!cancelled) setIsRestored(true);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [openSavedGame]);
+
+    /**
+     * Autosaves the current game shortly after anything in it changes.
+     * A game with nothing in it yet is not added to the library.
+     */
+    useEffect(() => {
+        if (!isRestored) return;
+        const timer = setTimeout(async () => {
+            try {
+                if (actualMovesPlayed.length > 0 || chat.length > 0 || importedPgn) {
+                    const savedAnalysis = analysisMatches ? analysis : [];
+                    await saveGame({
+                        id: gameId,
+                        createdAt,
+                        updatedAt: Date.now(),
+                        startFen,
+                        moves: actualMovesPlayed,
+                        session,
+                        white: importedPgn?.headers.White ?? players.white,
+                        black: importedPgn?.headers.Black ?? players.black,
+                        opponent: importedPgn
+                            ? `${importedPgn.headers.White ?? '?'} vs ${importedPgn.headers.Black ?? '?'}`
+                            : players.white === 'You' ? players.black
+                            : players.black === 'You' ? players.white
+                            : `${players.white} vs ${players.black}`,
+                        result,
+                        outcome,
+                        analysis: savedAnalysis,
+                        accuracy: savedAnalysis.length > 0
+                            ? computeAccuracy(savedAnalysis, savedAnalysis[0].evaluationBefore)
+                            : null,
+                        summary: analysisMatches ? summary : '',
+                        chat,
+                        hintsUsed,
+                        importedPgn,
+                    });
+                    setLibraryKey((key) => key + 1);
+                }
+                await setCurrentGameId(gameId);
+            } catch (error) {
+                console.error('Autosave failed:', error);
+            }
+        }, 500);
+        return () => clearTimeout(timer);
+    }, [
+        isRestored, gameId, createdAt, startFen, actualMovesPlayed, session, players, importedPgn,
+        result, outcome, analysis, analysisMatches, summary, chat, hintsUsed,
+    ]);
+
+    const handleGameComplete = useCallback((moves: string[], endedBy: GameOutcome) => {
         setCompletedGameMoves(moves);
+        setGameOutcome(endedBy);
         setShowAnalysis(true);
+    }, []);
+
+    const handleNewGame = () => {
+        startNewRecord();
+        setStartFen(DEFAULT_POSITION);
+        setInitialPlayerColor(undefined);
+        setImportedPgn(null);
+        setAnalysis([]);
+        setGameOutcome(null);
+        setShowAnalysis(false);
+    };
+
+    /**
+     * PGN of the game on the board, annotated with the analysis if it
+     * belongs to this game.
+     */
+    const getPgn = () => {
+        return writePgn(buildGamePgn({
+            moves: actualMovesPlayed,
+            startFen,
+            white: importedPgn?.headers.White ?? players.white,
+            black: importedPgn?.headers.Black ?? players.black,
+            result,
+            termination: outcome,
+            analysis: analysisMatches ? analysis : undefined,
+            clocks: session?.timeControl ? getMainline(session.moveTree).map((node) => node.clock) : undefined,
+            timeControl: importedPgn ? undefined : session?.timeControl ?? null,
+        }));
+    };
+
+    /**
+     * Loads an imported game onto the board and opens it for analysis.
+     */
+    const handleImport = (pgnGame: PgnGame) => {
+        const moves = pgnGame.moves.map((move: PgnMove) => move.san);
+        const imported = new Chess(pgnGame.startFen);
+        moves.forEach((san) => imported.move(san));
+
+        startNewRecord();
+        setStartFen(pgnGame.startFen);
+        setGame(imported);
+        setFen(imported.fen());
+        setActualMovesPlayed(moves);
+        setImportedPgn(pgnGame);
+        setAnalysis([]);
+        setCompletedGameMoves(moves);
+        setGameOutcome(null);
+        setShowAnalysis(moves.length > 0);
+        setInitialPlayerColor(undefined);
+        setShowSetup(false);
+        setGameKey((key) => key + 1);
+    };
+
+    /**
+     * Starts a new game from a position built in the board editor.
+     */
+    const handlePlayPosition = (positionFen: string, playerColor: 'w' | 'b') => {
+        const newGame = new Chess(positionFen);
+        startNewRecord();
+        setStartFen(positionFen);
+        setGame(newGame);
+        setFen(newGame.fen());
+        setActualMovesPlayed([]);
+        setImportedPgn(null);
+        setAnalysis([]);
+        setCompletedGameMoves([]);
+        setGameOutcome(null);
+        setShowAnalysis(false);
+        setInitialPlayerColor(playerColor);
+        setShowSetup(false);
+        setGameKey((key) => key + 1);
+    };
+
+    /**
+     * Shows the sandbox board, starting from `positionFen` with `line` to step through.
+     */
+    const openSandbox = (positionFen: string, line: string[]) => {
+        setSandbox({ fen: positionFen, line });
+        setSandboxFen(positionFen);
+        setSandboxKey((key) => key + 1);
+    };
+
+    const closeSandbox = () => {
+        setSandbox(null);
+        setSandboxFen(null);
     };
 
     return (
         <div style={{ padding: '20px' }}>
             <h1 style={{ textAlign: 'center', marginBottom: '30px' }}>Chess Tutor Page</h1>
-            
+
             {/* MAIN LAYOUT CONTAINER */}
-            <div style={{ 
-                display: 'flex', 
+            <div style={{
+                display: 'flex',
                 flexDirection: 'row',
-                alignItems: 'flex-start', 
+                alignItems: 'flex-start',
                 justifyContent: 'center', // Centers the whole group
                 gap: '20px'
             }}>
-                
+
                 {/* 1. The Game (Controls + Board) */}
                 {/* We use flex-shrink-0 to prevent the board from crushing if screen is tight */}
                 <div style={{ flexShrink: 0 }}>
-                    <ChessTutorGame 
-                        game={game} 
-                        setGame={setGame}
-                        fen={fen}
-                        setFen={setFen}
-                        actualMovesPlayed={actualMovesPlayed}
-                        setActualMovesPlayed={setActualMovesPlayed}
-                        onGameComplete={handleGameComplete}
-                    />
+                    {sandbox && (
+                        <SandboxBoard
+                            key={sandboxKey}
+                            startFen={sandbox.fen}
+                            line={sandbox.line}
+                            orientation={session?.playerColor === 'b' ? 'black' : 'white'}
+                            previewMove={tutorMove}
+                            threatMove={threatMove}
+                            hintFocus={hintFocus}
+                            onPositionChange={setSandboxFen}
+                            onExit={closeSandbox}
+                        />
+                    )}
+                    {showSetup && (
+                        <div style={{ display: sandbox ? 'none' : 'block' }}>
+                            <BoardEditor
+                                initialFen={fen}
+                                onPlay={handlePlayPosition}
+                                onCancel={() => setShowSetup(false)}
+                                onPositionChange={setSetupFen}
+                            />
+                        </div>
+                    )}
+                    {/* Kept mounted while editing or in the sandbox, so the game and its settings are left as they were */}
+                    <div style={{ display: showSetup || sandbox ? 'none' : 'block' }}>
+                        <ChessTutorGame
+                            key={gameKey}
+                            game={game}
+                            setGame={setGame}
+                            fen={fen}
+                            setFen={setFen}
+                            actualMovesPlayed={actualMovesPlayed}
+                            setActualMovesPlayed={setActualMovesPlayed}
+                            onGameComplete={handleGameComplete}
+                            startFen={startFen}
+                            onPlayersChange={setPlayers}
+                            onNewGame={handleNewGame}
+                            onSetupPosition={() => setShowSetup(true)}
+                            initialPlayerColor={initialPlayerColor}
+                            initialSession={savedSession}
+                            onSessionChange={setSession}
+                            jumpToPly={jumpToPly}
+                            previewMove={tutorMove}
+                            threatMove={threatMove}
+                            hintFocus={hintFocus}
+                        />
+                    </div>
                 </div>
-                
+
                 {/* 2. The AI Tutor */}
-                <div style={{ 
-                    width: '380px', 
+                <div style={{
+                    width: '380px',
                     flexShrink: 0, // Keeps the tutor width fixed
                 }}>
-                    <ChessAiTutor 
-                        currentFen={fen} 
-                        game={game}
+                    <ChessAiTutor
+                        key={gameId}
+                        currentFen={tutorFen}
+                        opening={tutorOpening}
+                        game={tutorGame}
+                        currentPly={sandbox || showSetup ? null : boardPly}
+                        onPlySelect={(ply) => {
+                            closeSandbox();
+                            setJumpToPly({ ply });
+                        }}
+                        initialMessages={savedChat}
+                        onMessagesChange={setChat}
+                        onMoveSelect={(uci) =>
+                            // Clicking the move shown again hides it
+                            setTutorMove((shown) =>
+                                shown?.fen === tutorFen && shown.uci === uci ? null : { fen: tutorFen, uci }
+                            )
+                        }
+                        onTryLine={openSandbox}
+                        onThreatFound={setThreat}
+                        onHintFocus={setHintFocus}
+                        // Only hints about the game's own positions count toward its tally
+                        onHintUsed={sandbox || showSetup
+                            ? undefined
+                            : (level) => setHintsUsed((used) => ({ ...used, [level]: used[level] + 1 }))}
                     />
                 </div>
             </div>
 
+            {/* 3. PGN import / export */}
+            <div style={{ marginTop: '30px' }}>
+                <PgnPanel getPgn={getPgn} onImport={handleImport} />
+            </div>
+
             {showAnalysis && completedGameMoves.length > 0 && (
                 <div style={{ marginTop: '30px' }}>
-                    <GameAnalysisPanel 
+                    <GameAnalysisPanel
+                        key={`${gameId} ${startFen} ${completedGameMoves.join(' ')}`}
                         moves={completedGameMoves}
+                        startFen={startFen}
+                        annotations={importedPgn?.moves}
+                        outcome={outcome}
+                        hintsUsed={importedPgn ? undefined : hintsUsed}
+                        initialAnalysis={analysisMatches ? analysis : []}
+                        initialSummary={analysisMatches ? summary : ''}
+                        onAnalysisComplete={setAnalysis}
+                        onSummaryComplete={setSummary}
+                        gameId={gameId}
+                        puzzleColors={puzzleColors}
+                        onPuzzlesAdded={() => setPuzzleKey((key) => key + 1)}
+                        currentPly={analysisMatches ? boardPly : null}
+                        onPositionSelect={analysisMatches ? (ply) => setJumpToPly({ ply }) : undefined}
                         onClose={() => setShowAnalysis(false)}
                     />
                 </div>
             )}
+
+            {/* 4. Saved games */}
+            <div style={{ marginTop: '30px' }}>
+                <GameLibrary currentGameId={gameId} refreshKey={libraryKey} onOpen={openSavedGame} />
+            </div>
+
+            {/* 5. Puzzles from past mistakes */}
+            <div style={{ marginTop: '30px' }}>
+                <PuzzleTrainer refreshKey={puzzleKey} />
+            </div>
         </div>
     )
 }
 
-export default ChessTutorPage;
\ No newline at end of file
+export default ChessTutorPage;
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { computeAccuracy } from './accuracy';
+import type { GameAnalysis } from '../types/analysis';
+
+// Queen odds: White starts without the queen, about nine pawns down
+const ODDS_START = -900;
+
+function entry(move: string, fen: string, evaluation: number): GameAnalysis {
+  return { moveNumber: 1, move, fen, evaluation, classification: 'best' };
+}
+
+const moves: GameAnalysis[] = [
+  entry('e4', 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNB1KBNR b KQkq - 0 1', ODDS_START),
+  entry('e5', 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNB1KBNR w KQkq - 0 2', ODDS_START),
+];
+
+describe('computeAccuracy', () => {
+  it('scores moves that keep a level game level as perfect', () => {
+    const level = moves.map((move) => ({ ...move, evaluation: 0 }));
+    expect(computeAccuracy(level)).toEqual({ white: 100, black: 100 });
+  });
+
+  it('scores the first move against the starting evaluation', () => {
+    expect(computeAccuracy(moves, ODDS_START)).toEqual({ white: 100, black: 100 });
+  });
+
+  it('assumes a level start when no starting evaluation is given', () => {
+    expect(computeAccuracy(moves).white).toBeLessThan(20);
+  });
+
+  it('gives no score to a side without moves', () => {
+    expect(computeAccuracy(moves.slice(0, 1), ODDS_START)).toEqual({ white: 100, black: null });
+  });
+});
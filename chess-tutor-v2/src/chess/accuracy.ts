@@ -0,0 +1,48 @@
+import type { GameAnalysis } from '../types/analysis';
+
+/**
+ * Accuracy scores from the per-move evaluations of an analyzed game,
+ * using the win-probability model popularised by Lichess: each move is
+ * scored by how much of the mover's winning chances it gave away.
+ */
+
+export interface GameAccuracy {
+  white: number | null;      // 0-100, or null if that side has no scored moves
+  black: number | null;
+}
+
+/**
+ * White's chance of winning, 0-100, for an evaluation in centipawns.
+ */
+export function winPercent(cp: number): number {
+  return 50 + 50 * (2 / (1 + Math.exp(-0.00368208 * cp)) - 1);
+}
+
+/**
+ * Accuracy of a single move from the mover's win percentage before and after it.
+ */
+export function moveAccuracy(winBefore: number, winAfter: number): number {
+  const loss = Math.max(0, winBefore - winAfter);
+  return Math.min(100, Math.max(0, 103.1668 * Math.exp(-0.04354 * loss) - 3.1669));
+}
+
+/**
+ * Average accuracy for each side. Evaluations are from White's
+ * perspective; the game is assumed to start level when no starting
+ * evaluation is given.
+ */
+export function computeAccuracy(analysis: GameAnalysis[], startEvaluation = 0): GameAccuracy {
+  const scores: Record<'w' | 'b', number[]> = { w: [], b: [] };
+
+  analysis.forEach((entry, index) => {
+    const color = entry.fen.split(' ')[1] === 'b' ? 'w' : 'b'; // The side that just moved
+    const before = winPercent(index === 0 ? startEvaluation : analysis[index - 1].evaluation);
+    const after = winPercent(entry.evaluation);
+    scores[color].push(color === 'w' ? moveAccuracy(before, after) : moveAccuracy(100 - before, 100 - after));
+  });
+
+  const average = (values: number[]) =>
+    values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length * 10) / 10 : null;
+
+  return { white: average(scores.w), black: average(scores.b) };
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { Chess } from 'chess.js';
+import { classifyMove } from './classification';
+
+// White mates in one with either Ra8 or Qb8
+const TWO_MATES = '6k1/5ppp/8/8/8/8/1Q6/R5K1 w - - 0 1';
+
+function classify(san: string, after: number) {
+  const move = new Chess(TWO_MATES).move(san);
+  return classifyMove({ move, fenBefore: TWO_MATES, before: 9999, after, bestMove: 'b2b8', secondBest: 9999 });
+}
+
+describe('classifyMove', () => {
+  it('counts a checkmate other than the engine\'s as best', () => {
+    expect(classify('Ra8', 10000)).toEqual({ classification: 'best' });
+  });
+
+  it('counts a move that lets the mate slip as a miss', () => {
+    expect(classify('Kf1', 500).classification).toBe('miss');
+  });
+});
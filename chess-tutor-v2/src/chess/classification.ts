@@ -0,0 +1,107 @@
+import { Chess, type Move, type PieceSymbol } from 'chess.js';
+import { winPercent } from './accuracy';
+import { mateIn } from '../engine/engineScore';
+import type { MoveClassification } from '../types/analysis';
+
+/**
+ * Move classification by expected points and mate distance.
+ *
+ * Evaluations are centipawns from White's point of view, with forced mates
+ * mapped close to +/- MATE_SCORE. A move is judged by how much of the
+ * mover's expected score (1 for a win, 0.5 for a draw) it gives away, and
+ * by whether it gives up or walks into a forced mate.
+ */
+
+export interface MoveToClassify {
+  move: Move;                  // The move played
+  fenBefore: string;
+  before: number;              // Evaluation before the move, with best play
+  after: number;               // Evaluation after the move
+  bestMove: string | null;     // Engine's best move before the move, in UCI
+  secondBest: number | null;   // Evaluation after the engine's second choice, if there is one
+}
+
+export interface ClassifiedMove {
+  classification: MoveClassification;
+  comment?: string;
+}
+
+const PIECE_VALUES: Record<PieceSymbol, number> = { p: 1, n: 3, b: 3, r: 5, q: 9, k: 0 };
+
+// Expected points lost, below which a move counts as each classification
+const LOSS_THRESHOLDS: [number, MoveClassification][] = [
+  [0.02, 'excellent'],
+  [0.05, 'good'],
+  [0.1, 'inaccuracy'],
+  [0.2, 'mistake'],
+];
+
+/**
+ * The mover's expected score, 0-1, for an evaluation from their side.
+ */
+function expectedPoints(cp: number): number {
+  return winPercent(cp) / 100;
+}
+
+/**
+ * Whether the move leaves the piece that moved where the opponent can
+ * win material by taking it.
+ */
+function isSacrifice(fenBefore: string, move: Move): boolean {
+  const piece = move.promotion ?? move.piece;
+  if (piece === 'p' || piece === 'k') return false;
+  const given = PIECE_VALUES[piece] - (move.captured ? PIECE_VALUES[move.captured] : 0);
+  if (given < 2) return false;
+
+  const chess = new Chess(fenBefore);
+  chess.move(move.san);
+  if (chess.isCheckmate()) return false;
+
+  const opponent = move.color === 'w' ? 'b' : 'w';
+  const attackers = chess.attackers(move.to, opponent);
+  if (attackers.length === 0) return false;
+
+  const cheapest = Math.min(...attackers.map((square) => PIECE_VALUES[chess.get(square)!.type]));
+  return !chess.isAttacked(move.to, move.color) || cheapest < PIECE_VALUES[piece];
+}
+
+export function classifyMove({ move, fenBefore, before, after, bestMove, secondBest }: MoveToClassify): ClassifiedMove {
+  const perspective = move.color === 'w' ? 1 : -1;
+  const pointsBefore = expectedPoints(before * perspective);
+  const pointsAfter = expectedPoints(after * perspective);
+  const loss = Math.max(0, pointsBefore - pointsAfter);
+  const mateBefore = mateIn(before * perspective);
+  const mateAfter = mateIn(after * perspective);
+  const isBest = move.lan === bestMove;
+
+  // A sound sacrifice, found when the game wasn't already won
+  if ((isBest || loss < 0.02) && pointsAfter >= 0.5 && pointsBefore < 0.95 && isSacrifice(fenBefore, move)) {
+    return { classification: 'brilliant' };
+  }
+
+  if (isBest) {
+    // The only move that holds the position
+    if (secondBest !== null && pointsBefore - expectedPoints(secondBest * perspective) >= 0.15) {
+      return { classification: 'great' };
+    }
+    return { classification: 'best' };
+  }
+  // Any mate on the board is as good as the engine's move
+  if (mateAfter === 0) {
+    return { classification: 'best' };
+  }
+
+  if (mateAfter !== null && mateAfter < 0 && (mateBefore === null || mateBefore > 0)) {
+    return { classification: 'blunder', comment: `Allows mate in ${-mateAfter}.` };
+  }
+  if (mateBefore !== null && mateBefore > 0 && mateAfter === null) {
+    return { classification: 'miss', comment: `Missed mate in ${mateBefore}.` };
+  }
+  // Let a winning position slip without losing it
+  if (pointsBefore >= 0.7 && pointsAfter < 0.6 && pointsAfter >= 0.3) {
+    return { classification: 'miss', comment: 'Missed a winning continuation.' };
+  }
+
+  const match = LOSS_THRESHOLDS.find(([threshold]) => loss < threshold);
+  return { classification: match ? match[1] : 'blunder' };
+}
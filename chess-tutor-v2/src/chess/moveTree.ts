@@ -0,0 +1,161 @@
+import { Chess } from 'chess.js';
+
+/**
+ * The history of a game as a tree of moves.
+ *
+ * Going back and playing something else doesn't throw the old moves away:
+ * the new move becomes the main line and the old continuation is kept as a
+ * side variation. Trees are immutable; every update returns a new tree.
+ */
+
+export interface MoveNode {
+  id: number;
+  parent: number | null;        // null for the root (the starting position)
+  children: number[];           // children[0] continues the main line, the rest are variations
+  san: string;                  // Empty for the root
+  fen: string;                  // Position after the move
+  moveNumber: number;           // Full-move number of the move
+  color: 'w' | 'b';             // Side that played the move
+  ply: number;                  // Half-moves from the start (0 for the root)
+  clock?: number;               // Mover's remaining time in ms after the move, in timed games
+}
+
+export interface MoveTree {
+  nodes: MoveNode[];            // Indexed by id; nodes[0] is the root
+}
+
+export const ROOT_ID = 0;
+
+/**
+ * Creates a tree whose main line is the given SAN moves.
+ */
+export function createMoveTree(startFen: string, moves: string[] = []): MoveTree {
+  const chess = new Chess(startFen);
+  let tree: MoveTree = {
+    nodes: [{
+      id: ROOT_ID,
+      parent: null,
+      children: [],
+      san: '',
+      fen: chess.fen(),
+      moveNumber: chess.moveNumber(),
+      color: chess.turn() === 'w' ? 'b' : 'w',
+      ply: 0,
+    }],
+  };
+
+  let parentId = ROOT_ID;
+  for (const san of moves) {
+    ({ tree, id: parentId } = addMove(tree, parentId, san));
+  }
+  return tree;
+}
+
+/**
+ * Plays a move (SAN or from/to squares) from a node. If that move was
+ * already played from there, the existing node is reused.
+ * Throws if chess.js rejects the move.
+ */
+export function addMove(
+  tree: MoveTree,
+  parentId: number,
+  move: string | { from: string; to: string; promotion?: string },
+): { tree: MoveTree; id: number } {
+  const parent = tree.nodes[parentId];
+  const chess = new Chess(parent.fen);
+  const moveNumber = chess.moveNumber();
+  const played = chess.move(move);
+
+  const existing = parent.children.find((childId) => tree.nodes[childId].san === played.san);
+  if (existing !== undefined) return { tree, id: existing };
+
+  const id = tree.nodes.length;
+  const node: MoveNode = {
+    id,
+    parent: parentId,
+    children: [],
+    san: played.san,
+    fen: chess.fen(),
+    moveNumber,
+    color: played.color,
+    ply: parent.ply + 1,
+  };
+
+  const nodes = [...tree.nodes, node];
+  nodes[parentId] = { ...parent, children: [...parent.children, id] };
+  return { tree: { nodes }, id };
+}
+
+/**
+ * The moves leading from the start to a node, not including the root.
+ */
+export function getPath(tree: MoveTree, id: number): MoveNode[] {
+  const path: MoveNode[] = [];
+  let node = tree.nodes[id];
+  while (node.parent !== null) {
+    path.unshift(node);
+    node = tree.nodes[node.parent];
+  }
+  return path;
+}
+
+/**
+ * The main line of the game, not including the root.
+ */
+export function getMainline(tree: MoveTree): MoveNode[] {
+  const line: MoveNode[] = [];
+  let node = tree.nodes[ROOT_ID];
+  while (node.children.length > 0) {
+    node = tree.nodes[node.children[0]];
+    line.push(node);
+  }
+  return line;
+}
+
+/**
+ * The last node reached by following the first child from a node.
+ */
+export function getLineEnd(tree: MoveTree, id: number): number {
+  let node = tree.nodes[id];
+  while (node.children.length > 0) node = tree.nodes[node.children[0]];
+  return node.id;
+}
+
+/**
+ * Makes the line through a node the main line. Whatever was the main line
+ * at each branch point becomes the first variation there.
+ */
+export function promoteToMainline(tree: MoveTree, id: number): MoveTree {
+  const nodes = [...tree.nodes];
+  for (const node of getPath(tree, id)) {
+    const parent = nodes[node.parent!];
+    if (parent.children[0] === node.id) continue;
+    nodes[parent.id] = {
+      ...parent,
+      children: [node.id, ...parent.children.filter((childId) => childId !== node.id)],
+    };
+  }
+  return { nodes };
+}
+
+/**
+ * Records the mover's remaining clock time on a node.
+ */
+export function setClock(tree: MoveTree, id: number, clock: number): MoveTree {
+  const nodes = [...tree.nodes];
+  nodes[id] = { ...nodes[id], clock };
+  return { nodes };
+}
+
+/**
+ * Time left on `color`'s clock in the position after a node: the time
+ * recorded with that side's last move, or `initial` if it hasn't moved.
+ */
+export function getClockAt(tree: MoveTree, id: number, color: 'w' | 'b', initial: number): number {
+  let node = tree.nodes[id];
+  while (node.parent !== null) {
+    if (node.color === color && node.clock !== undefined) return node.clock;
+    node = tree.nodes[node.parent];
+  }
+  return initial;
+}
@@ -0,0 +1,76 @@
+import { Chess } from 'chess.js';
+import { ECO_OPENINGS } from './ecoOpenings';
+
+/**
+ * Opening recognition against the bundled ECO table.
+ *
+ * Openings are looked up by position rather than by move order, so a
+ * game that transposes into a known line is still recognised.
+ */
+
+export interface Opening {
+  eco: string;               // ECO code, e.g. "C50"
+  name: string;              // e.g. "Italian Game: Giuoco Piano"
+}
+
+// Every position on a table line; null for the ones without a name of their own
+let book: Map<string, Opening | null> | null = null;
+
+/**
+ * The FEN without the move counters, so transpositions compare equal.
+ */
+function positionKey(fen: string): string {
+  return fen.split(' ').slice(0, 4).join(' ');
+}
+
+/**
+ * Every position in the table, built the first time it is needed. The
+ * positions on the way to a named one are in the book too, without a name
+ * unless another line names them.
+ */
+function getBook(): Map<string, Opening | null> {
+  if (!book) {
+    const positions = new Map<string, Opening | null>();
+    for (const [eco, name, moves] of ECO_OPENINGS) {
+      const chess = new Chess();
+      for (const san of moves.split(' ')) {
+        chess.move(san);
+        const key = positionKey(chess.fen());
+        if (!positions.has(key)) positions.set(key, null);
+      }
+      positions.set(positionKey(chess.fen()), { eco, name });
+    }
+    book = positions;
+  }
+  return book;
+}
+
+/**
+ * The named opening of this position, or null if it has no name in the table.
+ */
+export function getOpening(fen: string): Opening | null {
+  return getBook().get(positionKey(fen)) ?? null;
+}
+
+/**
+ * Whether this position is on one of the table's lines, named or not.
+ */
+export function isBookPosition(fen: string): boolean {
+  return getBook().has(positionKey(fen));
+}
+
+/**
+ * The opening a game is in: the last position of the game, after each
+ * move in `fens`, that has a name.
+ */
+export function findOpening(fens: string[]): Opening | null {
+  for (let i = fens.length - 1; i >= 0; i--) {
+    const opening = getOpening(fens[i]);
+    if (opening) return opening;
+  }
+  return null;
+}
+
+export function formatOpening(opening: Opening): string {
+  return `${opening.eco} ${opening.name}`;
+}
@@ -0,0 +1,83 @@
+import type { Chess } from 'chess.js';
+
+/**
+ * How a game ended: the result and the exact reason.
+ */
+
+export type TerminationReason =
+  | 'checkmate'
+  | 'stalemate'
+  | 'insufficient-material'
+  | 'threefold-repetition'
+  | 'fifty-move-rule'
+  | 'resignation'
+  | 'timeout'
+  | 'agreement';
+
+export interface GameOutcome {
+  result: '1-0' | '0-1' | '1/2-1/2';
+  reason: TerminationReason;
+  loser?: 'w' | 'b';         // Who resigned or ran out of time
+}
+
+export const TERMINATION_LABELS: Record<TerminationReason, string> = {
+  checkmate: 'checkmate',
+  stalemate: 'stalemate',
+  'insufficient-material': 'insufficient material',
+  'threefold-repetition': 'threefold repetition',
+  'fifty-move-rule': 'fifty-move rule',
+  resignation: 'resignation',
+  timeout: 'timeout',
+  agreement: 'agreement',
+};
+
+/**
+ * The outcome decided by the rules in this position, or null if the game
+ * can go on. Repetitions are only seen if `chess` holds the game's history.
+ */
+export function getBoardOutcome(chess: Chess): GameOutcome | null {
+  if (chess.isCheckmate()) {
+    return { result: chess.turn() === 'w' ? '0-1' : '1-0', reason: 'checkmate' };
+  }
+  if (chess.isStalemate()) return { result: '1/2-1/2', reason: 'stalemate' };
+  if (chess.isInsufficientMaterial()) return { result: '1/2-1/2', reason: 'insufficient-material' };
+  if (chess.isThreefoldRepetition()) return { result: '1/2-1/2', reason: 'threefold-repetition' };
+  if (chess.isDrawByFiftyMoves()) return { result: '1/2-1/2', reason: 'fifty-move-rule' };
+  return null;
+}
+
+/**
+ * A sentence describing the outcome, e.g. "Black resigned. White wins."
+ */
+export function describeOutcome(outcome: GameOutcome): string {
+  const winner = outcome.result === '1-0' ? 'White' : 'Black';
+  const loser = outcome.loser === 'w' ? 'White' : 'Black';
+
+  switch (outcome.reason) {
+    case 'checkmate':
+      return `Checkmate! ${winner} wins.`;
+    case 'stalemate':
+      return 'Stalemate. The game is a draw.';
+    case 'insufficient-material':
+      return 'Draw by insufficient material.';
+    case 'threefold-repetition':
+      return 'Draw by threefold repetition.';
+    case 'fifty-move-rule':
+      return 'Draw by the fifty-move rule.';
+    case 'resignation':
+      return `${loser} resigned. ${winner} wins.`;
+    case 'timeout':
+      return outcome.result === '1/2-1/2'
+        ? `${loser} ran out of time. Draw: the opponent can't checkmate.`
+        : `${loser} ran out of time. ${winner} wins.`;
+    case 'agreement':
+      return 'Draw by agreement.';
+  }
+}
+
+/**
+ * Value for the PGN Termination tag.
+ */
+export function pgnTermination(outcome: GameOutcome): string {
+  return outcome.reason === 'timeout' ? 'Time forfeit' : 'Normal';
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { Chess } from 'chess.js';
+import { buildGamePgn, parsePgn, writePgn } from './pgn';
+import type { GameAnalysis } from '../types/analysis';
+
+/**
+ * Analysis of `moves` with the given evaluations, one per move.
+ */
+function analyze(moves: string[], evaluations: number[]): GameAnalysis[] {
+  const chess = new Chess();
+  return moves.map((move, index) => {
+    chess.move(move);
+    return {
+      moveNumber: Math.floor(index / 2) + 1,
+      move,
+      fen: chess.fen(),
+      evaluation: evaluations[index],
+      classification: 'good',
+    };
+  });
+}
+
+describe('buildGamePgn', () => {
+  it('writes forced mates as mate distances and reads them back', () => {
+    // Scholar's mate: after 3...Nf6 White mates in one
+    const moves = ['e4', 'e5', 'Qh5', 'Nc6', 'Bc4', 'Nf6', 'Qxf7#'];
+    const analysis = analyze(moves, [30, 25, 10, 40, 20, 9999, 10000]);
+
+    const parsed = parsePgn(writePgn(buildGamePgn({ moves, white: 'You', black: 'AI', analysis })));
+
+    expect(parsed.moves.map((move) => move.san)).toEqual(moves);
+    expect(parsed.moves[0].comment).toBe('[%eval 0.30]');
+    expect(parsed.moves[5].comment).toBe('[%eval #1]');
+    // Mate on the board has no evaluation left to write
+    expect(parsed.moves[6].comment).toBeUndefined();
+    expect(parsed.result).toBe('1-0');
+  });
+
+  it('writes mates for Black with a minus sign', () => {
+    // Fool's mate: after 2.g4 Black mates in one
+    const moves = ['f3', 'e5', 'g4'];
+    const analysis = analyze(moves, [-60, -50, -9999]);
+
+    const parsed = parsePgn(writePgn(buildGamePgn({ moves, white: 'You', black: 'AI', analysis })));
+
+    expect(parsed.moves[2].comment).toBe('[%eval #-1]');
+  });
+});
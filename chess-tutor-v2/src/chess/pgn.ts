@@ -0,0 +1,417 @@
+import { Chess, DEFAULT_POSITION } from 'chess.js';
+import type { GameAnalysis, MoveClassification } from '../types/analysis';
+import { formatClkComment, type TimeControl } from './timeControl';
+import { pgnTermination, type GameOutcome } from './outcome';
+import { mateIn } from '../engine/engineScore';
+
+/**
+ * PGN reading and writing.
+ *
+ * chess.js can load a PGN, but it drops variations, so games are parsed
+ * here into a small tree: each move keeps its comment, NAGs and any
+ * alternative lines that branch off before it.
+ */
+
+export interface PgnMove {
+  san: string;
+  comment?: string;
+  nags: number[];               // Numeric annotation glyphs, e.g. 2 for "?"
+  variations: PgnMove[][];      // Alternatives to this move, played from the same position
+}
+
+export interface PgnGame {
+  headers: Record<string, string>;
+  moves: PgnMove[];             // The mainline
+  startFen: string;
+  result: string;               // "1-0", "0-1", "1/2-1/2" or "*"
+  comment?: string;             // Comment before the first move
+}
+
+export class PgnParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PgnParseError';
+  }
+}
+
+const SEVEN_TAG_ROSTER = ['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result'];
+const RESULTS = ['1-0', '0-1', '1/2-1/2', '*'];
+
+// Move suffixes and the NAGs they stand for
+const SUFFIX_NAGS: Record<string, number> = {
+  '!': 1, '?': 2, '!!': 3, '??': 4, '!?': 5, '?!': 6,
+};
+
+// NAG written for each analysis classification ('best', 'excellent', 'good' and 'book' get none)
+const CLASSIFICATION_NAGS: Partial<Record<MoveClassification, number>> = {
+  brilliant: 3,
+  great: 1,
+  inaccuracy: 6,
+  mistake: 2,
+  miss: 2,
+  blunder: 4,
+};
+
+// ----------------------------------------------------------------
+// PARSING
+// ----------------------------------------------------------------
+
+type Token =
+  | { type: 'move'; value: string }
+  | { type: 'comment'; value: string }
+  | { type: 'nag'; value: number }
+  | { type: 'open' }
+  | { type: 'close' }
+  | { type: 'result'; value: string };
+
+function tokenize(movetext: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < movetext.length) {
+    const char = movetext[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '{') {
+      const end = movetext.indexOf('}', i);
+      if (end === -1) throw new PgnParseError('Unterminated comment');
+      tokens.push({ type: 'comment', value: movetext.slice(i + 1, end).trim() });
+      i = end + 1;
+    } else if (char === ';') {
+      // Rest-of-line comment
+      const end = movetext.indexOf('\n', i);
+      const stop = end === -1 ? movetext.length : end;
+      tokens.push({ type: 'comment', value: movetext.slice(i + 1, stop).trim() });
+      i = stop;
+    } else if (char === '(') {
+      tokens.push({ type: 'open' });
+      i++;
+    } else if (char === ')') {
+      tokens.push({ type: 'close' });
+      i++;
+    } else if (char === '$') {
+      const match = movetext.slice(i).match(/^\$(\d+)/);
+      if (!match) throw new PgnParseError(`Invalid NAG at position ${i}`);
+      tokens.push({ type: 'nag', value: parseInt(match[1]) });
+      i += match[0].length;
+    } else {
+      const match = movetext.slice(i).match(/^[^\s{}();$]+/);
+      const word = match ? match[0] : char;
+      i += word.length;
+
+      if (RESULTS.includes(word)) {
+        tokens.push({ type: 'result', value: word });
+        continue;
+      }
+
+      // Strip move numbers ("12." / "12...") which may be glued to the move
+      const move = word.replace(/^\d+\.+/, '');
+      if (!move) continue;
+
+      const suffix = move.match(/[!?]+$/);
+      const san = suffix ? move.slice(0, -suffix[0].length) : move;
+      if (san) tokens.push({ type: 'move', value: san });
+      if (suffix && SUFFIX_NAGS[suffix[0]]) {
+        tokens.push({ type: 'nag', value: SUFFIX_NAGS[suffix[0]] });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parses the first game in a PGN string; any games after it (as in a
+ * site's export of many games) are ignored. Every move, including those in
+ * variations, is checked for legality and normalised to chess.js SAN.
+ */
+export function parsePgn(pgn: string): PgnGame {
+  const headers: Record<string, string> = {};
+  const headerPattern = /^\s*\[(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]\s*$/;
+
+  const lines = pgn.replace(/\r\n?/g, '\n').split('\n');
+  let lineIndex = 0;
+  for (; lineIndex < lines.length; lineIndex++) {
+    const line = lines[lineIndex];
+    if (!line.trim()) {
+      if (Object.keys(headers).length > 0) break;
+      continue;
+    }
+    const match = line.match(headerPattern);
+    if (!match) break;
+    headers[match[1]] = match[2].replace(/\\(.)/g, '$1');
+  }
+
+  const startFen = headers.FEN ?? DEFAULT_POSITION;
+  let position: Chess;
+  try {
+    position = new Chess(startFen);
+  } catch {
+    throw new PgnParseError(`Invalid FEN header: ${startFen}`);
+  }
+
+  // The movetext runs until the next game's tag section
+  const nextGame = lines.findIndex((line, i) => i > lineIndex && headerPattern.test(line));
+  const tokens = tokenize(lines.slice(lineIndex, nextGame === -1 ? undefined : nextGame).join('\n'));
+  let index = 0;
+  let result = headers.Result ?? '*';
+  let gameComment: string | undefined;
+
+  // Parses one line of moves (the mainline or a variation) starting from
+  // `chess`, until a closing parenthesis or the end of the movetext.
+  const parseLine = (chess: Chess, isMainline: boolean): PgnMove[] => {
+    const line: PgnMove[] = [];
+    // Position before the last move in `line`, where its variations start
+    let previousFen = chess.fen();
+
+    while (index < tokens.length) {
+      const token = tokens[index];
+
+      if (token.type === 'close') {
+        return line;
+      }
+      index++;
+
+      switch (token.type) {
+        case 'move': {
+          previousFen = chess.fen();
+          let san: string;
+          try {
+            san = chess.move(token.value).san;
+          } catch {
+            const moveNumber = chess.moveNumber();
+            throw new PgnParseError(
+              `Illegal move "${token.value}" at move ${moveNumber}${chess.turn() === 'w' ? '.' : '...'}`,
+            );
+          }
+          line.push({ san, nags: [], variations: [] });
+          break;
+        }
+        case 'comment': {
+          const last = line[line.length - 1];
+          if (last) {
+            last.comment = last.comment ? `${last.comment} ${token.value}` : token.value;
+          } else if (isMainline) {
+            gameComment = token.value;
+          }
+          break;
+        }
+        case 'nag': {
+          line[line.length - 1]?.nags.push(token.value);
+          break;
+        }
+        case 'open': {
+          const last = line[line.length - 1];
+          if (!last) throw new PgnParseError('Variation before any move');
+          const variation = parseLine(new Chess(previousFen), false);
+          if (tokens[index]?.type !== 'close') throw new PgnParseError('Unterminated variation');
+          index++;
+          if (variation.length > 0) last.variations.push(variation);
+          break;
+        }
+        case 'result': {
+          result = token.value;
+          // The game's result ends it, even if more text follows
+          if (isMainline) index = tokens.length;
+          break;
+        }
+      }
+    }
+
+    return line;
+  };
+
+  const mainline = parseLine(position, true);
+  if (index < tokens.length) throw new PgnParseError('Unmatched ")" in movetext');
+
+  if (mainline.length === 0 && Object.keys(headers).length === 0) {
+    throw new PgnParseError('No PGN found');
+  }
+
+  return { headers, moves: mainline, startFen, result, comment: gameComment };
+}
+
+// ----------------------------------------------------------------
+// WRITING
+// ----------------------------------------------------------------
+
+/**
+ * Serialises a game to PGN: the seven-tag roster first, then any other
+ * headers, then the movetext wrapped at 80 columns.
+ */
+export function writePgn(game: PgnGame): string {
+  const headers: Record<string, string> = { ...game.headers, Result: game.result };
+  if (game.startFen !== DEFAULT_POSITION) {
+    headers.SetUp = '1';
+    headers.FEN = game.startFen;
+  }
+
+  const tagOrder = [
+    ...SEVEN_TAG_ROSTER,
+    ...Object.keys(headers).filter((key) => !SEVEN_TAG_ROSTER.includes(key)),
+  ];
+  const headerText = tagOrder
+    .map((key) => `[${key} "${(headers[key] ?? '?').replace(/[\\"]/g, '\\$&')}"]`)
+    .join('\n');
+
+  const [, turn, , , , fullMove] = game.startFen.split(' ');
+  const tokens = writeLine(game.moves, parseInt(fullMove) || 1, turn === 'b' ? 'b' : 'w');
+  if (game.comment) tokens.unshift(`{${game.comment.replace(/}/g, ')')}}`);
+  tokens.push(game.result);
+
+  return `${headerText}\n\n${wrap(tokens)}\n`;
+}
+
+/**
+ * Movetext for a single line (e.g. a variation) starting from `fen`,
+ * such as "12... Nf6 13. e5 {Better}".
+ */
+export function formatLine(line: PgnMove[], fen: string): string {
+  const [, turn, , , , fullMove] = fen.split(' ');
+  return writeLine(line, parseInt(fullMove) || 1, turn === 'b' ? 'b' : 'w').join(' ');
+}
+
+function writeLine(line: PgnMove[], moveNumber: number, turn: 'w' | 'b'): string[] {
+  const tokens: string[] = [];
+  let forceNumber = true;
+
+  for (const move of line) {
+    if (turn === 'w') {
+      tokens.push(`${moveNumber}.`);
+    } else if (forceNumber) {
+      tokens.push(`${moveNumber}...`);
+    }
+
+    tokens.push(move.san);
+    move.nags.forEach((nag) => tokens.push(`$${nag}`));
+    if (move.comment) tokens.push(`{${move.comment.replace(/}/g, ')')}}`);
+
+    move.variations.forEach((variation) => {
+      const variationTokens = writeLine(variation, moveNumber, turn);
+      tokens.push(`(${variationTokens.join(' ')})`);
+    });
+
+    // Black's move needs its number again after a comment or variation
+    forceNumber = Boolean(move.comment) || move.variations.length > 0;
+    if (turn === 'b') moveNumber++;
+    turn = turn === 'w' ? 'b' : 'w';
+  }
+
+  return tokens;
+}
+
+function wrap(tokens: string[], width = 80): string {
+  const lines: string[] = [];
+  let current = '';
+  for (const token of tokens) {
+    if (current && current.length + token.length + 1 > width) {
+      lines.push(current);
+      current = token;
+    } else {
+      current = current ? `${current} ${token}` : token;
+    }
+  }
+  if (current) lines.push(current);
+  return lines.join('\n');
+}
+
+// ----------------------------------------------------------------
+// GAME EXPORT
+// ----------------------------------------------------------------
+
+interface GameExport {
+  moves: string[];              // SAN mainline
+  startFen?: string;
+  white: string;
+  black: string;
+  result?: string;              // Defaults to the result on the board, or "*"
+  analysis?: GameAnalysis[];    // Adds NAGs and [%eval] comments when present
+  clocks?: (number | undefined)[]; // Mover's clock after each move in ms, written as [%clk]
+  timeControl?: TimeControl | null; // Written to the TimeControl tag; null for untimed games
+  termination?: GameOutcome | null; // How the game ended, for the Termination tag
+  date?: Date;
+}
+
+/**
+ * PGN result for the final position of a game, or "*" if it isn't over.
+ */
+export function getBoardResult(chess: Chess): string {
+  if (chess.isCheckmate()) return chess.turn() === 'w' ? '0-1' : '1-0';
+  if (chess.isDraw()) return '1/2-1/2';
+  return '*';
+}
+
+/**
+ * Builds a PgnGame for a game played in the tutor, annotating each move
+ * with its analysis classification when available.
+ */
+export function buildGamePgn({
+  moves,
+  startFen = DEFAULT_POSITION,
+  white,
+  black,
+  result,
+  analysis,
+  clocks,
+  timeControl,
+  termination,
+  date = new Date(),
+}: GameExport): PgnGame {
+  const chess = new Chess(startFen);
+  moves.forEach((san) => chess.move(san));
+
+  const pgnMoves: PgnMove[] = moves.map((san, index) => {
+    const moveAnalysis = analysis?.[index];
+    const clock = clocks?.[index];
+    const move: PgnMove = { san, nags: [], variations: [] };
+    const parts: string[] = [];
+    if (clock !== undefined) parts.push(`[%clk ${formatClkComment(clock)}]`);
+    if (!moveAnalysis) {
+      if (parts.length > 0) move.comment = parts.join(' ');
+      return move;
+    }
+
+    const nag = CLASSIFICATION_NAGS[moveAnalysis.classification];
+    if (nag) move.nags.push(nag);
+
+    const mate = mateIn(moveAnalysis.evaluation);
+    // A mate already on the board has no evaluation to give
+    if (mate === null) parts.push(`[%eval ${(moveAnalysis.evaluation / 100).toFixed(2)}]`);
+    else if (mate !== 0) parts.push(`[%eval #${mate}]`);
+    if (moveAnalysis.classification === 'book') {
+      parts.push('Book move.');
+    } else if (nag) {
+      parts.push(`${capitalize(moveAnalysis.classification)}.`);
+    }
+    if (moveAnalysis.comment) parts.push(moveAnalysis.comment);
+    move.comment = parts.join(' ');
+    // The engine's line as a variation for moves that lost something
+    const lostSomething = ['inaccuracy', 'mistake', 'miss', 'blunder'].includes(moveAnalysis.classification);
+    if (lostSomething && moveAnalysis.bestLine?.length) {
+      move.variations.push(moveAnalysis.bestLine.map((bestSan) => ({ san: bestSan, nags: [], variations: [] })));
+    }
+    return move;
+  });
+
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return {
+    headers: {
+      Event: 'Chess Tutor Game',
+      Site: 'Chess Tutor',
+      Date: `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())}`,
+      Round: '-',
+      White: white,
+      Black: black,
+      ...(timeControl !== undefined && { TimeControl: timeControl ? timeControl.id : '-' }),
+      ...(termination && { Termination: pgnTermination(termination) }),
+    },
+    moves: pgnMoves,
+    startFen,
+    result: result ?? getBoardResult(chess),
+  };
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,82 @@
+import type { Puzzle } from '../types/puzzle';
+
+/**
+ * Puzzles built from analyzed games, and their spaced-repetition schedule.
+ *
+ * Each puzzle sits in a box. Solving it moves it up a box and pushes the
+ * next review further out; failing it sends it back to box 0, so it comes
+ * back again soon.
+ */
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+
+// Wait before the next review, indexed by box
+const REVIEW_INTERVALS = [10 * MINUTE, 1 * DAY, 3 * DAY, 7 * DAY, 16 * DAY, 35 * DAY];
+
+// Longest solution kept from the engine's line, in plies
+const MAX_SOLUTION_PLIES = 5;
+
+/**
+ * A new puzzle for the position before a mistake, due straight away.
+ * Returns null when the engine gave no line to solve with.
+ */
+export function createPuzzle(
+  gameId: string,
+  ply: number,
+  fen: string,
+  line: string[],
+  playedMove: string,
+  classification: Puzzle['classification'],
+): Puzzle | null {
+  // End on one of the solver's own moves
+  const length = Math.min(line.length, MAX_SOLUTION_PLIES);
+  const solution = line.slice(0, length % 2 === 0 ? length - 1 : length);
+  if (solution.length === 0) return null;
+
+  const now = Date.now();
+  return {
+    id: `${gameId}:${ply}`,
+    gameId,
+    fen,
+    solution,
+    playedMove,
+    classification,
+    createdAt: now,
+    box: 0,
+    dueAt: now,
+    attempts: 0,
+    solved: 0,
+  };
+}
+
+/**
+ * The puzzle after an attempt, rescheduled by how it went.
+ */
+export function recordAttempt(puzzle: Puzzle, solved: boolean, now = Date.now()): Puzzle {
+  const box = solved ? Math.min(puzzle.box + 1, REVIEW_INTERVALS.length - 1) : 0;
+  return {
+    ...puzzle,
+    box,
+    dueAt: now + REVIEW_INTERVALS[box],
+    attempts: puzzle.attempts + 1,
+    solved: puzzle.solved + (solved ? 1 : 0),
+  };
+}
+
+/**
+ * Puzzles due for review, longest overdue first.
+ */
+export function getDuePuzzles(puzzles: Puzzle[], now = Date.now()): Puzzle[] {
+  return puzzles.filter((puzzle) => puzzle.dueAt <= now).sort((a, b) => a.dueAt - b.dueAt);
+}
+
+/**
+ * Share of attempts that were solved, from 0 to 100, or null before the first attempt.
+ */
+export function getSolveRate(puzzles: Puzzle[]): number | null {
+  const attempts = puzzles.reduce((sum, puzzle) => sum + puzzle.attempts, 0);
+  if (attempts === 0) return null;
+  const solved = puzzles.reduce((sum, puzzle) => sum + puzzle.solved, 0);
+  return Math.round((solved / attempts) * 100);
+}
@@ -0,0 +1,149 @@
+import { Chess, validateFen } from 'chess.js';
+
+/**
+ * Helpers for the board editor: converting between FEN and a
+ * square → piece map, validating hand-built positions, and presets.
+ */
+
+// Square → piece code, e.g. { e1: 'wK', e8: 'bK' } (react-chessboard's piece codes)
+export type SetupPosition = Record<string, string>;
+
+export interface CastlingRights {
+  K: boolean;
+  Q: boolean;
+  k: boolean;
+  q: boolean;
+}
+
+export interface SetupPreset {
+  name: string;
+  category: 'Odds' | 'Teaching';
+  fen: string;
+}
+
+export const SETUP_PRESETS: SetupPreset[] = [
+  { name: 'Queen odds (White without queen)', category: 'Odds', fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNB1KBNR w KQkq - 0 1' },
+  { name: 'Rook odds (White without a1 rook)', category: 'Odds', fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/1NBQKBNR w Kkq - 0 1' },
+  { name: 'Knight odds (White without b1 knight)', category: 'Odds', fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/R1BQKBNR w KQkq - 0 1' },
+  { name: 'Queen odds (Black without queen)', category: 'Odds', fen: 'rnb1kbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1' },
+  { name: 'Rook odds (Black without a8 rook)', category: 'Odds', fen: '1nbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQk - 0 1' },
+  { name: 'Knight odds (Black without b8 knight)', category: 'Odds', fen: 'r1bqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1' },
+  { name: 'Mate with king and queen', category: 'Teaching', fen: '8/8/8/4k3/8/8/8/3QK3 w - - 0 1' },
+  { name: 'Mate with king and rook', category: 'Teaching', fen: '8/8/8/4k3/8/8/8/R3K3 w - - 0 1' },
+  { name: 'Mate with two bishops', category: 'Teaching', fen: '8/8/8/4k3/8/8/8/2B1KB2 w - - 0 1' },
+  { name: 'Back-rank mate', category: 'Teaching', fen: '6k1/5ppp/8/8/8/8/5PPP/3R2K1 w - - 0 1' },
+  { name: 'King and pawn: opposition', category: 'Teaching', fen: '4k3/8/4K3/4P3/8/8/8/8 w - - 0 1' },
+  { name: 'Lucena position', category: 'Teaching', fen: '1K1k4/1P6/8/8/8/8/r7/2R5 w - - 0 1' },
+];
+
+const FILES = 'abcdefgh';
+
+/**
+ * Reads the piece placement of a FEN into a square → piece map.
+ */
+export function fenToSetupPosition(fen: string): SetupPosition {
+  const position: SetupPosition = {};
+  const rows = fen.split(' ')[0].split('/');
+  rows.forEach((row, rowIndex) => {
+    let file = 0;
+    for (const char of row) {
+      if (/\d/.test(char)) {
+        file += parseInt(char);
+      } else {
+        const color = char === char.toUpperCase() ? 'w' : 'b';
+        position[`${FILES[file]}${8 - rowIndex}`] = `${color}${char.toUpperCase()}`;
+        file++;
+      }
+    }
+  });
+  return position;
+}
+
+/**
+ * Builds a full FEN from the editor state. Castling rights whose king or
+ * rook is not on its home square are dropped, since they could never apply.
+ */
+export function setupPositionToFen(
+  position: SetupPosition,
+  turn: 'w' | 'b',
+  castling: CastlingRights,
+): string {
+  const rows: string[] = [];
+  for (let rank = 8; rank >= 1; rank--) {
+    let row = '';
+    let empty = 0;
+    for (const file of FILES) {
+      const piece = position[`${file}${rank}`];
+      if (!piece) {
+        empty++;
+        continue;
+      }
+      if (empty) row += empty;
+      empty = 0;
+      row += piece[0] === 'w' ? piece[1].toUpperCase() : piece[1].toLowerCase();
+    }
+    if (empty) row += empty;
+    rows.push(row);
+  }
+
+  const has = (square: string, piece: string) => position[square] === piece;
+  let rights = '';
+  if (castling.K && has('e1', 'wK') && has('h1', 'wR')) rights += 'K';
+  if (castling.Q && has('e1', 'wK') && has('a1', 'wR')) rights += 'Q';
+  if (castling.k && has('e8', 'bK') && has('h8', 'bR')) rights += 'k';
+  if (castling.q && has('e8', 'bK') && has('a8', 'bR')) rights += 'q';
+
+  return `${rows.join('/')} ${turn} ${rights || '-'} - 0 1`;
+}
+
+/**
+ * Reads the side to move and castling rights out of a FEN.
+ */
+export function parseSetupFen(fen: string): { turn: 'w' | 'b'; castling: CastlingRights } {
+  const [, turn, rights = '-'] = fen.trim().split(/\s+/);
+  return {
+    turn: turn === 'b' ? 'b' : 'w',
+    castling: {
+      K: rights.includes('K'),
+      Q: rights.includes('Q'),
+      k: rights.includes('k'),
+      q: rights.includes('q'),
+    },
+  };
+}
+
+/**
+ * Checks that a position can actually be played.
+ * Returns an error message, or null if the position is valid.
+ */
+export function validateSetup(fen: string): string | null {
+  const basic = validateFen(fen);
+  if (!basic.ok) return basic.error ?? 'Invalid FEN';
+
+  const position = fenToSetupPosition(fen);
+  const pieces = Object.entries(position);
+  const count = (piece: string) => pieces.filter(([, p]) => p === piece).length;
+
+  if (count('wK') !== 1) return 'White must have exactly one king.';
+  if (count('bK') !== 1) return 'Black must have exactly one king.';
+  if (count('wP') > 8 || count('bP') > 8) return 'A side cannot have more than eight pawns.';
+  if (pieces.some(([square, piece]) => piece[1] === 'P' && /[18]$/.test(square))) {
+    return 'Pawns cannot stand on the first or last rank.';
+  }
+
+  let chess: Chess;
+  try {
+    chess = new Chess(fen);
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid FEN';
+  }
+
+  // The side that just moved cannot have left its king in check
+  const waiting = chess.turn() === 'w' ? 'b' : 'w';
+  const [waitingKing] = chess.findPiece({ type: 'k', color: waiting });
+  if (waitingKing && chess.isAttacked(waitingKing, chess.turn())) {
+    return `${waiting === 'w' ? 'White' : 'Black'} is in check but it is not their move.`;
+  }
+
+  return null;
+}
@@ -0,0 +1,92 @@
+import type { Chess } from 'chess.js';
+
+/**
+ * Time controls and the chess clock rules that depend on the position.
+ */
+
+export interface TimeControl {
+  id: string;                // "300+0", as written to the PGN TimeControl tag
+  label: string;
+  initial: number;           // Milliseconds on each clock at the start
+  increment: number;         // Milliseconds added after each move
+}
+
+const control = (minutes: number, incrementSeconds: number): TimeControl => ({
+  id: `${minutes * 60}+${incrementSeconds}`,
+  label: `${minutes}+${incrementSeconds}`,
+  initial: minutes * 60_000,
+  increment: incrementSeconds * 1000,
+});
+
+// Untimed games are represented by a null time control
+export const TIME_CONTROLS: TimeControl[] = [
+  control(1, 0),
+  control(3, 2),
+  control(5, 0),
+  control(5, 3),
+  control(10, 0),
+  control(10, 5),
+  control(15, 10),
+  control(30, 0),
+];
+
+/**
+ * Clock display: "4:59", "1:02:03", or tenths of a second under ten seconds.
+ */
+export function formatClock(ms: number): string {
+  const clamped = Math.max(0, ms);
+  if (clamped < 10_000) return `0:0${(Math.floor(clamped / 100) / 10).toFixed(1)}`;
+
+  const totalSeconds = Math.floor(clamped / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+/**
+ * Clock time in the H:MM:SS form used by PGN [%clk] comments.
+ */
+export function formatClkComment(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = String(Math.floor((totalSeconds % 3600) / 60)).padStart(2, '0');
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return `${hours}:${minutes}:${seconds}`;
+}
+
+/**
+ * Whether `color` could still checkmate with the material it has, by any
+ * sequence of legal moves. A player who runs out of time only loses if
+ * the opponent could still mate; otherwise the game is drawn.
+ */
+export function canCheckmate(chess: Chess, color: 'w' | 'b'): boolean {
+  const opponent = color === 'w' ? 'b' : 'w';
+  const own = chess.board().flat().filter((piece) => piece && piece.color === color);
+  const theirs = chess.board().flat().filter((piece) => piece && piece.color === opponent);
+  const count = (type: string) => own.filter((piece) => piece!.type === type).length;
+
+  if (count('p') + count('r') + count('q') > 0) return true;
+
+  const knights = count('n');
+  const bishops = own.filter((piece) => piece!.type === 'b').map((piece) => squareColor(piece!.square));
+  if (knights + bishops.length === 0) return false;
+
+  // A lone knight can only mate if the opponent has pieces to block their own king in
+  if (knights === 1 && bishops.length === 0) return theirs.length > 1;
+
+  // Bishops all on one colour need an opponent pawn, knight or opposite bishop to help
+  if (knights === 0 && bishops.every((shade) => shade === bishops[0])) {
+    return theirs.some((piece) =>
+      piece!.type === 'p' || piece!.type === 'n' || (piece!.type === 'b' && squareColor(piece!.square) !== bishops[0])
+    );
+  }
+
+  return true;
+}
+
+function squareColor(square: string): 'light' | 'dark' {
+  const file = square.charCodeAt(0) - 'a'.charCodeAt(0);
+  const rank = Number(square[1]) - 1;
+  return (file + rank) % 2 === 0 ? 'dark' : 'light';
+}
@@ -0,0 +1,367 @@
+import React, { useEffect, useState } from 'react';
+import { Chessboard, ChessboardProvider, SparePiece } from 'react-chessboard';
+import { DEFAULT_POSITION } from 'chess.js';
+import {
+  SETUP_PRESETS,
+  fenToSetupPosition,
+  parseSetupFen,
+  setupPositionToFen,
+  validateSetup,
+  type CastlingRights,
+  type SetupPosition,
+} from '../chess/setup';
+
+interface BoardEditorProps {
+  initialFen?: string;
+  onPlay: (fen: string, playerColor: 'w' | 'b') => void;
+  onCancel: () => void;
+  onPositionChange?: (fen: string | null) => void; // The edited FEN when valid, so the tutor can discuss it
+}
+
+const WHITE_PIECES = ['wK', 'wQ', 'wR', 'wB', 'wN', 'wP'];
+const BLACK_PIECES = ['bK', 'bQ', 'bR', 'bB', 'bN', 'bP'];
+
+/**
+ * Setup mode: build a position by dragging pieces onto the board or by
+ * pasting a FEN, then play it against the AI.
+ * Drag a piece off the board (or right-click it) to remove it.
+ */
+export function BoardEditor({
+  initialFen = DEFAULT_POSITION,
+  onPlay,
+  onCancel,
+  onPositionChange,
+}: BoardEditorProps) {
+  const [pieces, setPieces] = useState<SetupPosition>(() => fenToSetupPosition(initialFen));
+  const [turn, setTurn] = useState<'w' | 'b'>(() => parseSetupFen(initialFen).turn);
+  const [castling, setCastling] = useState<CastlingRights>(() => parseSetupFen(initialFen).castling);
+  const [playerColor, setPlayerColor] = useState<'w' | 'b'>('w');
+  const [fenInput, setFenInput] = useState('');
+  const [fenError, setFenError] = useState<string | null>(null);
+
+  const fen = setupPositionToFen(pieces, turn, castling);
+  const validationError = validateSetup(fen);
+
+  useEffect(() => {
+    onPositionChange?.(validationError ? null : fen);
+  }, [fen, validationError, onPositionChange]);
+
+  // ----------------------------------------------------------------
+  // HANDLERS
+  // ----------------------------------------------------------------
+
+  /**
+   * Loads a full FEN into the editor.
+   */
+  function loadFen(newFen: string) {
+    const trimmed = newFen.trim();
+    const error = validateSetup(trimmed);
+    if (error) {
+      setFenError(error);
+      return;
+    }
+    const { turn: newTurn, castling: newCastling } = parseSetupFen(trimmed);
+    setPieces(fenToSetupPosition(trimmed));
+    setTurn(newTurn);
+    setCastling(newCastling);
+    setFenError(null);
+  }
+
+  function onPieceDrop(
+    pieceType: string,
+    isSparePiece: boolean,
+    sourceSquare: string,
+    targetSquare: string | null,
+  ): boolean {
+    setPieces((prev) => {
+      const next = { ...prev };
+      if (!isSparePiece) delete next[sourceSquare];
+      // Dropping off the board removes the piece
+      if (targetSquare) next[targetSquare] = pieceType;
+      return next;
+    });
+    return true;
+  }
+
+  function removePiece(square: string) {
+    setPieces((prev) => {
+      const next = { ...prev };
+      delete next[square];
+      return next;
+    });
+  }
+
+  function handlePresetChange(e: React.ChangeEvent<HTMLSelectElement>) {
+    if (e.target.value) loadFen(e.target.value);
+    e.target.value = '';
+  }
+
+  // ----------------------------------------------------------------
+  // RENDER
+  // ----------------------------------------------------------------
+
+  const boardPosition = Object.fromEntries(
+    Object.entries(pieces).map(([square, pieceType]) => [square, { pieceType }])
+  );
+
+  const renderSparePieces = (codes: string[]) => (
+    <div style={styles.spareRow}>
+      {codes.map((code) => (
+        <div key={code} style={styles.sparePiece}>
+          <SparePiece pieceType={code} />
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.controlsContainer}>
+        <h2 style={styles.heading}>Set Up Position</h2>
+
+        <div style={styles.control}>
+          <label htmlFor="setup-preset" style={styles.label}>Presets:</label>
+          <select id="setup-preset" defaultValue="" onChange={handlePresetChange} style={styles.select}>
+            <option value="" disabled>Choose a preset…</option>
+            {(['Odds', 'Teaching'] as const).map((category) => (
+              <optgroup key={category} label={category === 'Odds' ? 'Odds games' : 'Teaching positions'}>
+                {SETUP_PRESETS.filter((preset) => preset.category === category).map((preset) => (
+                  <option key={preset.name} value={preset.fen}>{preset.name}</option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+        </div>
+
+        <div style={styles.buttonGroup}>
+          <button style={styles.button} onClick={() => loadFen(DEFAULT_POSITION)}>Start Position</button>
+          <button style={styles.button} onClick={() => setPieces({})}>Clear Board</button>
+        </div>
+
+        <div style={styles.control}>
+          <label htmlFor="setup-turn" style={styles.label}>Side to move:</label>
+          <select
+            id="setup-turn"
+            value={turn}
+            onChange={(e) => setTurn(e.target.value as 'w' | 'b')}
+            style={styles.select}
+          >
+            <option value="w">White</option>
+            <option value="b">Black</option>
+          </select>
+        </div>
+
+        <div style={styles.control}>
+          <span style={styles.label}>Castling rights:</span>
+          <div style={styles.castlingGrid}>
+            {([['K', 'White O-O'], ['Q', 'White O-O-O'], ['k', 'Black O-O'], ['q', 'Black O-O-O']] as const).map(
+              ([right, label]) => (
+                <label key={right} style={styles.checkboxLabel}>
+                  <input
+                    type="checkbox"
+                    checked={castling[right]}
+                    onChange={(e) => setCastling({ ...castling, [right]: e.target.checked })}
+                  />
+                  {label}
+                </label>
+              )
+            )}
+          </div>
+        </div>
+
+        <div style={styles.control}>
+          <label htmlFor="setup-fen" style={styles.label}>Paste FEN:</label>
+          <div style={styles.fenRow}>
+            <input
+              id="setup-fen"
+              value={fenInput}
+              onChange={(e) => setFenInput(e.target.value)}
+              placeholder="rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1"
+              style={styles.fenInput}
+            />
+            <button style={styles.smallButton} onClick={() => loadFen(fenInput)} disabled={!fenInput.trim()}>
+              Load
+            </button>
+          </div>
+          {fenError && <span style={styles.error}>{fenError}</span>}
+        </div>
+
+        <div style={styles.fenDisplay}>{fen}</div>
+        {validationError && <span style={styles.error}>⚠️ {validationError}</span>}
+
+        <div style={styles.control}>
+          <label htmlFor="setup-color" style={styles.label}>Play as:</label>
+          <select
+            id="setup-color"
+            value={playerColor}
+            onChange={(e) => setPlayerColor(e.target.value as 'w' | 'b')}
+            style={styles.select}
+          >
+            <option value="w">White</option>
+            <option value="b">Black</option>
+          </select>
+        </div>
+
+        <div style={styles.buttonGroup}>
+          <button
+            style={styles.button}
+            onClick={() => onPlay(fen, playerColor)}
+            disabled={validationError !== null}
+          >
+            Play This Position
+          </button>
+          <button style={styles.button} onClick={onCancel}>
+            Cancel
+          </button>
+        </div>
+      </div>
+
+      <div style={styles.boardContainer}>
+        <ChessboardProvider
+          options={{
+            id: 'BoardEditor',
+            position: boardPosition,
+            allowDragOffBoard: true,
+            boardOrientation: playerColor === 'w' ? 'white' : 'black',
+            onPieceDrop: ({ piece, sourceSquare, targetSquare }) =>
+              onPieceDrop(piece.pieceType, piece.isSparePiece, sourceSquare, targetSquare),
+            onSquareRightClick: ({ square, piece }) => {
+              if (piece) removePiece(square);
+            },
+          }}
+        >
+          {renderSparePieces(playerColor === 'w' ? BLACK_PIECES : WHITE_PIECES)}
+          <Chessboard />
+          {renderSparePieces(playerColor === 'w' ? WHITE_PIECES : BLACK_PIECES)}
+        </ChessboardProvider>
+      </div>
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------
+// STYLING
+// ----------------------------------------------------------------
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'row',
+    fontFamily: 'sans-serif',
+    gap: '30px',
+    alignItems: 'flex-start',
+  },
+  controlsContainer: {
+    width: '380px',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '16px',
+    flexShrink: 0,
+    padding: '20px',
+    backgroundColor: '#4e3a2b',
+    borderRadius: '12px',
+    minHeight: '500px',
+  },
+  heading: {
+    margin: 0,
+    fontSize: '1.25rem',
+    textAlign: 'center',
+  },
+  control: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+  },
+  label: {
+    fontSize: '1rem',
+    fontWeight: '600',
+  },
+  select: {
+    padding: '10px',
+    fontSize: '1rem',
+    borderRadius: '4px',
+    border: '1px solid #ccc',
+    backgroundColor: '#b58863',
+  },
+  buttonGroup: {
+    display: 'grid',
+    gridTemplateColumns: '1fr 1fr',
+    gap: '10px',
+  },
+  button: {
+    padding: '12px',
+    fontSize: '1rem',
+    fontWeight: 'bold',
+    border: 'none',
+    borderRadius: '4px',
+    backgroundColor: '#b58863',
+    color: 'white',
+    cursor: 'pointer',
+  },
+  smallButton: {
+    padding: '8px 12px',
+    border: 'none',
+    borderRadius: '4px',
+    backgroundColor: '#b58863',
+    color: 'white',
+    cursor: 'pointer',
+  },
+  castlingGrid: {
+    display: 'grid',
+    gridTemplateColumns: '1fr 1fr',
+    gap: '6px',
+  },
+  checkboxLabel: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    fontSize: '0.95rem',
+  },
+  fenRow: {
+    display: 'flex',
+    gap: '8px',
+  },
+  fenInput: {
+    flex: 1,
+    padding: '8px',
+    borderRadius: '4px',
+    border: '1px solid #ccc',
+    fontFamily: 'monospace',
+    fontSize: '0.8rem',
+  },
+  fenDisplay: {
+    padding: '8px',
+    backgroundColor: '#3b2c20',
+    borderRadius: '4px',
+    fontFamily: 'monospace',
+    fontSize: '0.8rem',
+    wordBreak: 'break-all',
+  },
+  error: {
+    color: '#ff8a80',
+    fontSize: '0.9rem',
+  },
+  boardContainer: {
+    width: '500px',
+    maxWidth: '90vw',
+    backgroundColor: '#4e3a2b',
+    padding: '20px',
+    borderRadius: '12px',
+    flexShrink: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '10px',
+  },
+  spareRow: {
+    display: 'flex',
+    justifyContent: 'center',
+    gap: '8px',
+  },
+  sparePiece: {
+    width: '48px',
+    height: '48px',
+    cursor: 'grab',
+  },
+};
+
+export default BoardEditor;
@@ -1,138 +1,198 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Chess } from 'chess.js';
-
-interface Message {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-  timestamp: Date;
-}
+import { EngineCancelledError, getSharedEngine } from '../engine/stockfishEngine';
+import type { EngineScore } from '../engine/engineScore';
+import { findThreat, type Threat } from '../engine/threats';
+import { formatOpening, type Opening } from '../chess/openings';
+import {
+  streamTutorReply,
+  type HintFocus,
+  type TutorGame,
+  type TutorMessage,
+  type TutorReply,
+  type TutorRequest,
+} from '../tutor/tutorClient';
+import type { ChatMessage } from '../types/savedGame';
+import { FULL_HINT, type HintLevel } from '../tutor/hintLevels';
 
 interface ChessAiTutorProps {
   currentFen: string;
-  game: Chess;
-  onMoveSelect?: (move: string) => void;
+  opening?: Opening | null;                         // Named opening of the game, if known
+  game?: TutorGame | null;                          // The game so far, sent with questions
+  currentPly?: number | null;                       // Ply of the game on the board; null off its main line
+  onPlySelect?: (ply: number) => void;              // Show the position of the game a message was about
+  onMoveSelect?: (move: string) => void;           // A suggested move was clicked, in UCI
+  onTryLine?: (fen: string, line: string[]) => void; // Explore a suggested line (UCI) on the sandbox board
+  onThreatFound?: (threat: Threat | null) => void;  // Result of each threat search, for the board to show
+  onHintFocus?: (focus: (HintFocus & { fen: string }) | null) => void; // Squares the last hint points at, for the board to highlight
+  onHintUsed?: (level: HintLevel) => void;          // Each hint that was given in full, so the game can count them
+  initialMessages?: ChatMessage[];                  // Conversation of a resumed game
+  onMessagesChange?: (messages: ChatMessage[]) => void; // For autosave
+}
+
+// What each hint level gives away; asking again in the same position goes a level further
+const HINT_LEVEL_NAMES: Record<HintLevel, string> = {
+  1: 'a general idea',
+  2: 'which piece to move',
+  3: 'where it goes',
+  4: 'the full line',
+};
+
+// Messages sent with a question; the server keeps as many as fit its token budget
+const MAX_HISTORY = 40;
+
+/**
+ * The move a ply of the game ends with, e.g. "12... Nxe5", or null if the
+ * game doesn't have that many moves.
+ */
+function describePly(game: TutorGame, ply: number): string | null {
+  if (ply === 0) return 'start';
+  const san = game.moves[ply - 1];
+  if (!san) return null;
+  const [, turn, , , , fullMove] = game.startFen.split(' ');
+  const index = ply - 1 + (turn === 'b' ? 1 : 0);
+  const moveNumber = Number(fullMove) + Math.floor(index / 2);
+  return `${moveNumber}${index % 2 === 0 ? '.' : '...'} ${san}`;
 }
 
 export function ChessAiTutor({
   currentFen,
-  game,
+  opening = null,
+  game = null,
+  currentPly = null,
+  onPlySelect,
   onMoveSelect,
+  onTryLine,
+  onThreatFound,
+  onHintFocus,
+  onHintUsed,
+  initialMessages = [],
+  onMessagesChange,
 }: ChessAiTutorProps) {
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>(initialMessages);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  
-  // Ref to hold the worker instance
-  const stockfishRef = useRef<Worker | null>(null);
+  // The last hint given and the position it was for
+  const [lastHint, setLastHint] = useState<{ fen: string; level: HintLevel } | null>(null);
+  const nextHintLevel: HintLevel =
+    lastHint?.fen === currentFen ? (Math.min(lastHint.level + 1, FULL_HINT) as HintLevel) : 1;
+
+  // Lets a new hint request cancel an engine search that is still queued
+  const hintAbortRef = useRef<AbortController | null>(null);
+  // Cancels the reply being streamed in, for the Stop button
+  const replyAbortRef = useRef<AbortController | null>(null);
+  // The engine's lines for the last hinted position, reused by the next hint level
+  const hintAnalysisRef = useRef<{ fen: string; analysis: Pick<TutorRequest, 'engineLines' | 'threat'> } | null>(null);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
 
   // ----------------------------------------------------------------
-  // 1. INITIALIZE LOCAL STOCKFISH WORKER
+  // 1. HELPER: ANALYZE POSITION LOCALLY
   // ----------------------------------------------------------------
-  useEffect(() => {
-    // Make sure this filename matches your actual single-threaded file!
-    stockfishRef.current = new Worker('/stockfish/stockfish-17.1-lite-single-03e3232.js'); 
-    
-    stockfishRef.current.postMessage('uci');
-    // This tells Stockfish to always look for the top 3 lines
-    stockfishRef.current.postMessage('setoption name MultiPV value 3'); 
+  const analyzeWithStockfish = async (fen: string): Promise<Pick<TutorRequest, 'engineLines' | 'threat'>> => {
+    const signal = startEngineSearch();
+    const result = await getSharedEngine().analyze(fen, {
+      depth: 15,
+      multiPv: 3,
+      signal,
+    });
 
-    return () => {
-      stockfishRef.current?.terminate();
+    // The server checks the lines against the position, shows the LLM
+    // their first moves and hands them back with the moves it suggests
+    return {
+      engineLines: result.lines.map(({ depth, score, pv }) => ({ depth, score, pv: pv.slice(0, 10) })),
+      threat: await searchThreat(fen, signal, result.lines[0]?.score),
     };
-  }, []);
-
-  // ----------------------------------------------------------------
-  // 2. HELPER: ANALYZE POSITION LOCALLY
-  // ----------------------------------------------------------------
-  const analyzeWithStockfish = (fen: string): Promise<string> => {
-    return new Promise((resolve) => {
-      const worker = stockfishRef.current;
-      if (!worker) {
-        resolve("Analysis unavailable.");
-        return;
-      }
-
-      // Map<MultiPV_Index, Raw_Info_String>
-      const topLines = new Map<number, string>();
+  };
 
-      const handler = (e: MessageEvent) => {
-        const msg = e.data;
+  /**
+   * Cancels an engine search that is still waiting and returns the signal
+   * for a new one.
+   */
+  const startEngineSearch = () => {
+    hintAbortRef.current?.abort();
+    const controller = new AbortController();
+    hintAbortRef.current = controller;
+    return controller.signal;
+  };
 
-        // 1. Capture "info" lines with "pv" (Principal Variation)
-        if (msg.startsWith('info') && msg.includes('pv')) {
-          const multipvMatch = msg.match(/multipv (\d+)/);
-          const lineIndex = multipvMatch ? parseInt(multipvMatch[1]) : 1;
-          topLines.set(lineIndex, msg);
-        }
+  /**
+   * What the opponent threatens in `fen`, shown on the board and put in
+   * the form the tutor endpoint takes.
+   */
+  const searchThreat = async (fen: string, signal: AbortSignal, currentScore?: EngineScore) => {
+    const threat = await findThreat(fen, { currentScore, signal });
+    onThreatFound?.(threat);
+    return threat ? { move: threat.move, score: threat.score } : null;
+  };
 
-        // 2. Finish on "bestmove"
-        if (msg.startsWith('bestmove')) {
-          worker.removeEventListener('message', handler);
-          
-          // 3. Format ONLY the moves (no scores)
-          const formattedAnalysis = Array.from(topLines.values())
-            .sort((a, b) => {
-              // Ensure Line 1 (best) comes first
-              const idxA = parseInt(a.match(/multipv (\d+)/)?.[1] || '999');
-              const idxB = parseInt(b.match(/multipv (\d+)/)?.[1] || '999');
-              return idxA - idxB;
-            })
-            .map((line, index) => {
-              // Extract the move sequence
-              const pvMatch = line.match(/ pv (.*?)$/);
-              // Take the first 4 moves of the sequence to give the LLM context
-              const moves = pvMatch ? pvMatch[1].split(' ').slice(0, 4).join(' ') : '';
-              
-              return `Option ${index + 1}: ${moves}`;
-            })
-            .join('\n');
-
-          resolve(formattedAnalysis || "No moves found.");
-        }
-      };
+  /**
+   * Streams the tutor's reply into a new message that fills in as the
+   * text arrives. Stopping it keeps whatever had arrived. Resolves with the
+   * finished reply, or undefined if it was stopped.
+   */
+  const streamReply = async (request: TutorRequest): Promise<TutorReply | undefined> => {
+    const controller = new AbortController();
+    replyAbortRef.current = controller;
+    const timestamp = new Date();
+    const ply = currentPly ?? undefined;
+    const id = crypto.randomUUID();
+
+    // Adds the reply the first time, then replaces it wherever it is
+    const showReply = (reply: Omit<ChatMessage, 'id'>) => {
+      setMessages((prev) => {
+        const message = { ...reply, id };
+        const index = prev.findIndex((m) => m.id === id);
+        return index === -1 ? [...prev, message] : prev.map((m, i) => (i === index ? message : m));
+      });
+    };
 
-      worker.addEventListener('message', handler);
-      worker.postMessage(`position fen ${fen}`);
-      worker.postMessage('go depth 15'); 
-    });
+    try {
+      const reply = await streamTutorReply(
+        request,
+        (content) => showReply({ role: 'assistant', content, timestamp, ply }),
+        controller.signal,
+      );
+      // The suggested moves arrive with the end of the reply; a reply of
+      // moves alone gets them as its text, so it is never sent back empty
+      if (reply.moves.length > 0) {
+        const content = reply.text.trim() || `Suggested moves: ${reply.moves.map((move) => move.san).join(', ')}`;
+        showReply({ role: 'assistant', content, timestamp, ply, moves: reply.moves, fen: request.fen });
+      }
+      return reply;
+    } catch (error) {
+      if (!controller.signal.aborted) throw error;
+    } finally {
+      replyAbortRef.current = null;
+    }
   };
 
   // ----------------------------------------------------------------
-  // 3. INTEGRATION: GET HINT
+  // 2. INTEGRATION: GET HINT
   // ----------------------------------------------------------------
-  const getPositionAnalysis = async () => {
+  const getPositionAnalysis = async (level: HintLevel) => {
     setIsLoading(true);
+    const fen = currentFen;
 
     try {
-      // A. Run Local Stockfish First
-      const stockfishAnalysis = await analyzeWithStockfish(currentFen);
-
-      // B. Send FEN + Local Analysis to OpenAI
-      const response = await fetch('/api/chess-tutor', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          fen: currentFen,
-          turn: game.turn(),
-          inCheck: game.inCheck(),
-          // PASS THE LOCAL ANALYSIS HERE
-          stockfishAnalysis: stockfishAnalysis 
-        }),
+      // A. Run Local Stockfish First, unless an earlier hint level already did
+      const cached = hintAnalysisRef.current;
+      const stockfishAnalysis = cached?.fen === fen ? cached.analysis : await analyzeWithStockfish(fen);
+      hintAnalysisRef.current = { fen, analysis: stockfishAnalysis };
+
+      // B. Send FEN + Local Analysis to the tutor
+      const reply = await streamReply({
+        fen,
+        opening: opening ? formatOpening(opening) : undefined,
+        // PASS THE LOCAL ANALYSIS HERE
+        ...stockfishAnalysis,
+        level,
       });
-
-      if (!response.ok) throw new Error('Failed to get analysis');
-
-      const data = await response.json();
-      
-      setMessages((prev) => [...prev, {
-        role: 'assistant',
-        content: data.message,
-        timestamp: new Date(),
-      }]);
+      onHintFocus?.(reply?.focus ? { ...reply.focus, fen } : null);
+      // A stopped hint doesn't count
+      if (reply) onHintUsed?.(level);
     } catch (error) {
+      if (error instanceof EngineCancelledError) return;
       console.error('Error:', error);
       setMessages((prev) => [...prev, {
         role: 'assistant',
@@ -145,14 +205,17 @@ export function ChessAiTutor({
   };
 
   /**
-   * Handles general chess questions from the user
-   * (This function is UNCHANGED and correctly calls /api/chess-tutor)
+   * Handles general chess questions from the user, sent with the game so
+   * far and the conversation. With `withThreat`, the opponent's threat is
+   * searched for first and sent along with the question.
    */
-  const handleUserMessage = async (message: string) => {
-    const userMessage: Message = {
+  const handleUserMessage = async (message: string, withThreat = false) => {
+    const ply = currentPly ?? undefined;
+    const userMessage: ChatMessage = {
       role: 'user',
       content: message,
       timestamp: new Date(),
+      ply,
     };
 
     setMessages((prev) => [...prev, userMessage]);
@@ -160,38 +223,27 @@ export function ChessAiTutor({
     setIsLoading(true);
 
     try {
-      const response = await fetch('/api/chess-tutor', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          messages: [
-            {
-              role: 'system',
-              content: `You are an expert chess tutor. The current position is: ${currentFen}. The player is ${
-                game.turn() === 'w' ? 'White' : 'Black'
-              } to move. Answer questions clearly and educationally, keeping responses under 150 words unless a detailed explanation is specifically requested.`,
-            },
-            ...messages.slice(-6).map((m) => ({ role: m.role, content: m.content })),
-            { role: 'user', content: message },
-          ],
-        }),
+      const threat = withThreat ? await searchThreat(currentFen, startEngineSearch()) : undefined;
+
+      // The server adds the instructions and the facts of the position and the game
+      await streamReply({
+        messages: [
+          ...messages
+            // Empty turns, as saved by older versions, would be rejected by the server
+            .filter((m): m is ChatMessage & TutorMessage => m.role !== 'system' && m.content.trim() !== '')
+            .slice(-(MAX_HISTORY - 1))
+            .map((m) => ({ role: m.role, content: m.content })),
+          { role: 'user', content: message },
+        ],
+        fen: currentFen,
+        opening: opening ? formatOpening(opening) : undefined,
+        threat,
+        game: game ? { ...game, ply } : undefined,
       });
-
-      const data = await response.json();
-      const aiResponse = data.message;
-
-      const assistantMessage: Message = {
-        role: 'assistant',
-        content: aiResponse,
-        timestamp: new Date(),
-      };
-
-      setMessages((prev) => [...prev, assistantMessage]);
     } catch (error) {
+      if (error instanceof EngineCancelledError) return;
       console.error('Error getting AI response:', error);
-      const errorMessage: Message = {
+      const errorMessage: ChatMessage = {
         role: 'assistant',
         content: 'Sorry, I encountered an error. Please try again.',
         timestamp: new Date(),
@@ -214,20 +266,67 @@ export function ChessAiTutor({
   };
 
   const handleHintRequest = () => {
-    const hintMessage: Message = {
+    const level = nextHintLevel;
+    const hintMessage: ChatMessage = {
       role: 'user',
-      content: '🎯 Requesting position analysis...',
+      content: `💡 Hint ${level}/${FULL_HINT}: ${HINT_LEVEL_NAMES[level]}`,
       timestamp: new Date(),
+      ply: currentPly ?? undefined,
     };
     setMessages((prev) => [...prev, hintMessage]);
-    getPositionAnalysis();
+    setLastHint({ fen: currentFen, level });
+    getPositionAnalysis(level);
+  };
+
+  const handleThreatRequest = () => {
+    handleUserMessage('What is my opponent threatening?', true);
+  };
+
+  /**
+   * Stops the hint or reply in progress.
+   */
+  const handleStop = () => {
+    hintAbortRef.current?.abort();
+    replyAbortRef.current?.abort();
   };
 
+  // Drop any engine search or reply still running for this tutor when it unmounts
+  useEffect(() => {
+    return () => {
+      hintAbortRef.current?.abort();
+      replyAbortRef.current?.abort();
+    };
+  }, []);
+
+  useEffect(() => {
+    onMessagesChange?.(messages);
+  }, [messages, onMessagesChange]);
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  /**
+   * The move of the game a message was about, which shows its position
+   * when clicked.
+   */
+  const renderPlyLink = ({ ply }: ChatMessage) => {
+    const label = game && ply !== undefined ? describePly(game, ply) : null;
+    if (!label || ply === undefined) return null;
+    return (
+      <button
+        type="button"
+        style={styles.plyLink}
+        onClick={() => onPlySelect?.(ply)}
+        disabled={!onPlySelect}
+        title="Show this position"
+      >
+        {label}
+      </button>
+    );
+  };
+
   // ----------------------------------------------------------------
   // RENDER
   // ----------------------------------------------------------------
@@ -236,13 +335,24 @@ export function ChessAiTutor({
     <div style={styles.container}>
       <div style={styles.header}>
         <h3 style={styles.title}>Chess Tutor AI</h3>
-        <button
-          style={styles.hintButton}
-          onClick={handleHintRequest}
-          disabled={isLoading} // Updated
-        >
-          {isLoading ? 'Thinking...' : '💡 Get Hint'} 
-        </button>
+        <div style={styles.headerButtons}>
+          <button
+            style={styles.threatButton}
+            onClick={handleThreatRequest}
+            disabled={isLoading}
+            title="What is my opponent threatening?"
+          >
+            ⚠️ Threats
+          </button>
+          <button
+            style={styles.hintButton}
+            onClick={handleHintRequest}
+            disabled={isLoading} // Updated
+            title={`Next hint: ${HINT_LEVEL_NAMES[nextHintLevel]}`}
+          >
+            {isLoading ? 'Thinking...' : nextHintLevel === 1 ? '💡 Get Hint' : `💡 Hint ${nextHintLevel}/${FULL_HINT}`}
+          </button>
+        </div>
       </div>
 
       <div style={styles.chatContainer} ref={chatContainerRef}>
@@ -250,8 +360,8 @@ export function ChessAiTutor({
           <div style={styles.welcomeMessage}>
             <p>👋 Welcome! I'm your chess tutor.</p>
             <p>
-              Click "Get Hint" to analyze the current position, or ask me any
-              chess questions!
+              Click "Get Hint" for a nudge in the current position (click again
+              for more help), or ask me any chess questions!
             </p>
           </div>
         )}
@@ -268,6 +378,7 @@ export function ChessAiTutor({
           >
             <div style={styles.messageHeader}>
               <strong>{msg.role === 'user' ? 'You' : '🤖 Tutor'}</strong>
+              {renderPlyLink(msg)}
               <span style={styles.timestamp}>
                 {msg.timestamp.toLocaleTimeString([], {
                   hour: '2-digit',
@@ -276,10 +387,42 @@ export function ChessAiTutor({
               </span>
             </div>
             <div style={styles.messageContent}>{msg.content}</div>
+            {msg.moves && msg.moves.length > 0 && (
+              <div style={styles.moveChips}>
+                {msg.moves.map((move) => {
+                  const current = msg.fen === currentFen;
+                  const enabled = Boolean(onMoveSelect) && current;
+                  return (
+                    <span key={move.uci} style={styles.moveChipGroup}>
+                      <button
+                        type="button"
+                        style={{ ...styles.moveChip, ...(enabled ? {} : styles.moveChipDisabled) }}
+                        onClick={() => onMoveSelect?.(move.uci)}
+                        disabled={!enabled}
+                        title={enabled ? move.reason ?? 'Show on the board' : 'Suggested for an earlier position'}
+                      >
+                        {move.san}
+                      </button>
+                      {onTryLine && current && (
+                        <button
+                          type="button"
+                          style={styles.tryLineButton}
+                          onClick={() => onTryLine(currentFen, move.line ?? [move.uci])}
+                          title="Try this line on a sandbox board"
+                        >
+                          ▶
+                        </button>
+                      )}
+                    </span>
+                  );
+                })}
+              </div>
+            )}
           </div>
         ))}
 
-        {isLoading && (
+        {/* Typing dots until the first words of the reply arrive */}
+        {isLoading && messages[messages.length - 1]?.role !== 'assistant' && (
           <div style={styles.loadingIndicator}>
             <div style={styles.typingDot}></div>
             <div style={styles.typingDot}></div>
@@ -301,13 +444,19 @@ export function ChessAiTutor({
           disabled={isLoading}
           
         />
-        <button
-          type="submit"
-          style={styles.sendButton}
-          disabled={isLoading || !inputValue.trim()}
-        >
-          Send
-        </button>
+        {isLoading ? (
+          <button type="button" style={styles.stopButton} onClick={handleStop}>
+            Stop
+          </button>
+        ) : (
+          <button
+            type="submit"
+            style={styles.sendButton}
+            disabled={!inputValue.trim()}
+          >
+            Send
+          </button>
+        )}
       </form>
     </div>
   );
@@ -341,6 +490,20 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontSize: '1.25rem',
     fontWeight: '600',
   },
+  headerButtons: {
+    display: 'flex',
+    gap: '8px',
+  },
+  threatButton: {
+    padding: '8px 10px',
+    fontSize: '0.9rem',
+    backgroundColor: '#c0392b',
+    color: 'white',
+    border: 'none',
+    borderRadius: '6px',
+    cursor: 'pointer',
+    fontWeight: '500',
+  },
   hintButton: {
     padding: '8px 16px',
     fontSize: '0.9rem',
@@ -396,10 +559,58 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontSize: '0.75rem',
     fontWeight: 'normal',
   },
+  plyLink: {
+    marginLeft: '8px',
+    marginRight: 'auto',
+    padding: '0 6px',
+    border: '1px solid currentColor',
+    borderRadius: '8px',
+    backgroundColor: 'transparent',
+    color: 'inherit',
+    fontFamily: 'monospace',
+    fontSize: '0.75rem',
+    cursor: 'pointer',
+  },
   messageContent: {
     lineHeight: '1.5',
     whiteSpace: 'pre-wrap',
   },
+  moveChips: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '6px',
+    marginTop: '8px',
+  },
+  moveChip: {
+    padding: '4px 10px',
+    border: '1px solid #e67e22',
+    borderRadius: '12px',
+    backgroundColor: '#fff',
+    color: '#d35400',
+    fontFamily: 'monospace',
+    fontSize: '0.9rem',
+    fontWeight: 'bold',
+    cursor: 'pointer',
+  },
+  moveChipGroup: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '2px',
+  },
+  tryLineButton: {
+    padding: '2px 6px',
+    border: 'none',
+    borderRadius: '10px',
+    backgroundColor: '#e67e22',
+    color: '#fff',
+    fontSize: '0.75rem',
+    cursor: 'pointer',
+  },
+  moveChipDisabled: {
+    borderColor: '#bdc3c7',
+    color: '#95a5a6',
+    cursor: 'default',
+  },
   loadingIndicator: {
     display: 'flex',
     gap: '6px',
@@ -441,6 +652,16 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontWeight: '500',
     transition: 'background-color 0.2s',
   },
+  stopButton: {
+    padding: '12px 24px',
+    fontSize: '1rem',
+    backgroundColor: '#e74c3c',
+    color: 'white',
+    border: 'none',
+    borderRadius: '8px',
+    cursor: 'pointer',
+    fontWeight: '500',
+  },
 };
 
 export default ChessAiTutor;
\ No newline at end of file
@@ -0,0 +1,52 @@
+import React from 'react';
+import { formatClock } from '../chess/timeControl';
+
+interface ChessClockProps {
+  time: number;              // Milliseconds left
+  active: boolean;           // True while this clock is running
+  label: string;
+}
+
+/**
+ * One side's clock, shown above or below the board.
+ */
+export function ChessClock({ time, active, label }: ChessClockProps) {
+  const low = time < 20_000;
+  return (
+    <div style={{ ...styles.clock, ...(active ? styles.active : {}), ...(active && low ? styles.low : {}) }}>
+      <span style={styles.label}>{label}</span>
+      <span style={styles.time}>{formatClock(time)}</span>
+    </div>
+  );
+}
+
+const styles: { [key: string]: React.CSSProperties } = {
+  clock: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '6px 12px',
+    borderRadius: '4px',
+    backgroundColor: '#3b2c20',
+    color: '#c8b8a6',
+  },
+  active: {
+    backgroundColor: '#f0d9b5',
+    color: '#2c3e50',
+  },
+  low: {
+    backgroundColor: '#e74c3c',
+    color: 'white',
+  },
+  label: {
+    fontSize: '0.9rem',
+    fontWeight: '600',
+  },
+  time: {
+    fontFamily: 'monospace',
+    fontSize: '1.4rem',
+    fontWeight: 'bold',
+  },
+};
+
+export default ChessClock;
@@ -1,8 +1,47 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Chessboard } from 'react-chessboard';
-import { Chess, Move } from 'chess.js'; // Logic, state, and type import
-// @ts-ignore: no type declarations available for 'js-chess-engine'
-import { Game as AiGame } from 'js-chess-engine'; // The AI engine
+import { Chess, DEFAULT_POSITION, type Square } from 'chess.js'; // Logic, state, and type import
+import { EngineCancelledError } from '../engine/stockfishEngine';
+import {
+  OPPONENT_LEVELS,
+  describeOpponent,
+  getOpponentMove,
+  respondToDrawOffer,
+  type OpponentClock,
+  type OpponentEngine,
+  type OpponentMove,
+} from '../engine/opponent';
+import { useLiveAnalysis } from '../engine/useLiveAnalysis';
+import EvalBar from './EvalBar';
+import PromotionDialog from './PromotionDialog';
+import MoveList from './MoveList';
+import ChessClock from './ChessClock';
+import {
+  ROOT_ID,
+  addMove,
+  createMoveTree,
+  getClockAt,
+  getLineEnd,
+  getMainline,
+  getPath,
+  promoteToMainline,
+  setClock,
+  type MoveTree,
+} from '../chess/moveTree';
+import { TIME_CONTROLS, canCheckmate, type TimeControl } from '../chess/timeControl';
+import { describeOutcome, getBoardOutcome, type GameOutcome } from '../chess/outcome';
+import { findOpening } from '../chess/openings';
+import type { GameMode, GameSession } from '../types/savedGame';
+
+// Pause between moves when the AI plays itself, in milliseconds
+const AI_VS_AI_DELAYS = [250, 500, 1000, 2000, 4000];
+
+// Arrow colours for the engine's 1st, 2nd and 3rd choice
+const ENGINE_ARROW_COLORS = ['rgba(39, 174, 96, 0.85)', 'rgba(52, 152, 219, 0.7)', 'rgba(155, 89, 182, 0.6)'];
+const TUTOR_ARROW_COLOR = 'rgba(230, 126, 34, 0.9)';
+const THREAT_ARROW_COLOR = 'rgba(231, 76, 60, 0.9)';
+const HINT_PIECE_STYLE: React.CSSProperties = { boxShadow: 'inset 0 0 0 4px rgba(241, 196, 15, 0.9)' };
+const HINT_TARGET_STYLE: React.CSSProperties = { backgroundColor: 'rgba(241, 196, 15, 0.55)' };
 
 interface ChessTutorGameProps {
   game: Chess;
@@ -11,13 +50,24 @@ interface ChessTutorGameProps {
   setFen: (fen: string) => void;
   actualMovesPlayed: string[];
   setActualMovesPlayed: React.Dispatch<React.SetStateAction<string[]>>;
-  onGameComplete?: (moves: string[]) => void; // Changed to pass moves array
+  onGameComplete?: (moves: string[], outcome: GameOutcome) => void; // Mainline and how the game ended
+  startFen?: string;                           // Position the moves were played from
+  onPlayersChange?: (players: { white: string; black: string }) => void; // Names for PGN headers
+  onNewGame?: () => void;
+  onSetupPosition?: () => void;                // Opens the board editor
+  initialPlayerColor?: 'w' | 'b';
+  initialSession?: GameSession | null;         // Saved state of a game being resumed
+  onSessionChange?: (session: GameSession) => void; // For autosave
+  jumpToPly?: { ply: number } | null;          // Show the mainline position after this ply; each request is a new object
+  previewMove?: { fen: string; uci: string } | null; // Move suggested by the tutor, drawn while its position is shown
+  threatMove?: { fen: string; uci: string } | null;  // The opponent's threat, drawn in red while its position is shown
+  hintFocus?: { fen: string; from: string; to?: string } | null; // Squares a tutor hint points at, highlighted while its position is shown
 }
 
 /**
  * A complete, self-contained chess tutor component.
  * It integrates react-chessboard (UI), chess.js (logic),
- * and js-chess-engine (AI) to provide all the requested features.
+ * and js-chess-engine or Stockfish (AI) to provide all the requested features.
  */
 export function ChessTutorGame({ 
   game, 
@@ -26,7 +76,18 @@ export function ChessTutorGame({
   setFen,
   actualMovesPlayed,
   setActualMovesPlayed,
-  onGameComplete 
+  onGameComplete,
+  startFen = DEFAULT_POSITION,
+  onPlayersChange,
+  onNewGame,
+  onSetupPosition,
+  initialPlayerColor,
+  initialSession,
+  onSessionChange,
+  jumpToPly,
+  previewMove,
+  threatMove,
+  hintFocus,
 }: ChessTutorGameProps) {
   // ----------------------------------------------------------------
   // STATE MANAGEMENT
@@ -39,105 +100,337 @@ export function ChessTutorGame({
   // We keep this separate from 'game' to trigger re-renders properly.
 //   const [fen, setFen] = useState(game.fen());
 
+  // Who plays: one human against the AI, two humans sharing the board
+  // (hotseat), or the AI against itself.
+  const [gameMode, setGameMode] = useState<GameMode>(() => initialSession?.gameMode ?? 'human-vs-ai');
+
   // The player's current color. 'w' or 'b'.
-  const [playerColor, setPlayerColor] = useState<'w' | 'b'>('w');
+  // A game loaded mid-way (e.g. from a PGN) starts with the human to move.
+  // In hotseat and AI-vs-AI games it only sets which way the board faces.
+  const [playerColor, setPlayerColor] = useState<'w' | 'b'>(
+    () => initialSession?.playerColor ?? initialPlayerColor ?? game.turn()
+  );
 
-  // The AI's difficulty level (0-4 for js-chess-engine).
-  const [difficulty, setDifficulty] = useState(0);
+  // AI-vs-AI playback: delay between moves, paused, and a single step
+  // requested while paused.
+  const [aiMoveDelay, setAiMoveDelay] = useState(1000);
+  const [isPaused, setIsPaused] = useState(false);
+  const [stepRequested, setStepRequested] = useState(false);
+
+  // Whether a human moves for `color` in the current mode.
+  const isHumanColor = (color: 'w' | 'b') =>
+    gameMode === 'hotseat' || (gameMode === 'human-vs-ai' && color === playerColor);
+
+  // Which engine plays the AI side, and the index of its strength
+  // in OPPONENT_LEVELS.
+  const [opponentEngine, setOpponentEngine] = useState<OpponentEngine>(
+    () => initialSession?.opponentEngine ?? 'js-chess-engine'
+  );
+  const [difficulty, setDifficulty] = useState(() => initialSession?.difficulty ?? 0);
+  const opponentLevel = OPPONENT_LEVELS[opponentEngine][difficulty];
+
+  // A pawn move to the last rank waiting for the player to pick a piece.
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: string; to: string } | null>(null);
+
+  // True while the AI engine is searching for its move.
+  const [isAiThinking, setIsAiThinking] = useState(false);
+
+  // Every move played, including lines that were taken back, as a tree.
+  // A game loaded with moves already played starts with them as the main line.
+  const [moveTree, setMoveTree] = useState<MoveTree>(
+    () => initialSession?.moveTree ?? createMoveTree(startFen, actualMovesPlayed)
+  );
+
+  // The move whose position is on the board. The game only continues
+  // (AI moves, game-over reporting) from the end of the main line.
+  const [currentNodeId, setCurrentNodeId] = useState(
+    () => initialSession?.currentNodeId ?? getLineEnd(moveTree, ROOT_ID)
+  );
+  const tipId = getLineEnd(moveTree, ROOT_ID);
+  const atGameEnd = currentNodeId === tipId;
 
-  // A stack to hold moves that have been undone, for the 'Redo' feature.
-  const [redoStack, setRedoStack] = useState<string[]>([]);
+  // Time control for both sides, or null for an untimed game.
+  const [timeControl, setTimeControl] = useState<TimeControl | null>(() => initialSession?.timeControl ?? null);
 
-  // Add this to your state declarations at the top
-  const [fenHistory, setFenHistory] = useState<string[]>([game.fen()]);
+  // An ending that isn't visible on the board: resignation, a draw by
+  // agreement or a flag fall.
+  const [ending, setEnding] = useState<GameOutcome | null>(() => initialSession?.ending ?? null);
+
+  // State of the player's draw offer in the current position.
+  const [drawOffer, setDrawOffer] = useState<'pending' | 'declined' | null>(null);
+  const drawOfferAbortRef = useRef<AbortController | null>(null);
+
+  // The last jump request handled, so each one moves the board only once
+  const handledJumpRef = useRef(jumpToPly);
+
+  // When the side to move at the end of the game started thinking, or null
+  // while the clocks are stopped. Clocks start with the first move, and a
+  // resumed game picks up where it left off.
+  const [turnStartedAt, setTurnStartedAt] = useState<number | null>(() => {
+    const tip = new Chess(moveTree.nodes[tipId].fen);
+    return timeControl && !ending && tipId !== ROOT_ID && !tip.isGameOver() ? Date.now() : null;
+  });
+  const [now, setNow] = useState(() => Date.now());
+  const tipTurn = moveTree.nodes[tipId].fen.split(' ')[1] as 'w' | 'b';
+
+  // Live engine overlays: the eval bar and arrows for the top engine moves.
+  const [showEvalBar, setShowEvalBar] = useState(false);
+  const [showArrows, setShowArrows] = useState(false);
+  const [arrowCount, setArrowCount] = useState(1);
+
+  // In training mode the engine overlays are hidden on the human's turn
+  // so they don't give the answer away.
+  const [trainingMode, setTrainingMode] = useState(true);
+
+  // How the game ended, once the board is at the end of the game and it is over.
+  const outcome = useMemo(
+    () => (atGameEnd ? ending ?? getBoardOutcome(game) : null),
+    [atGameEnd, ending, game]
+  );
+
+  // Named opening of the position on the board, shown under it
+  const opening = useMemo(
+    () => findOpening(getPath(moveTree, currentNodeId).map((node) => node.fen)),
+    [moveTree, currentNodeId]
+  );
+
+  const aiToMove = gameMode === 'ai-vs-ai' || (gameMode === 'human-vs-ai' && game.turn() !== playerColor);
+  const engineHidden = trainingMode && !aiToMove && !game.isGameOver();
+  const liveAnalysis = useLiveAnalysis(fen, {
+    enabled: (showEvalBar || showArrows) && !engineHidden,
+    multiPv: 3,
+  });
 
   // ----------------------------------------------------------------
   // CORE GAME LOGIC
   // ----------------------------------------------------------------
 
   /**
-   * This function is called when it's the AI's turn to move.
-   * It uses js-chess-engine to calculate a move based on the
-   * current difficulty and FEN.
+   * Puts a node's position on the board and reports the main line as the
+   * moves played. The game is replayed from the start so chess.js can
+   * still detect repetitions.
    */
-  const makeAiMove = useCallback(() => {
-    // 1. Create a new AI game instance using the current FEN.
-    const aiGame = new AiGame(game.fen());
+  const showNode = useCallback((tree: MoveTree, id: number) => {
+    const newGame = new Chess(tree.nodes[ROOT_ID].fen);
+    getPath(tree, id).forEach((node) => newGame.move(node.san));
 
-    // 2. Get the AI's move. This might be {'g8': 'f6'}, {}, or null.
-    const aiMoveObject = aiGame.aiMove(difficulty);
+    setMoveTree(tree);
+    setCurrentNodeId(id);
+    setPendingPromotion(null);
+    setGame(newGame);
+    setFen(newGame.fen());
+    setActualMovesPlayed(getMainline(tree).map((node) => node.san));
+    return newGame;
+  }, [setGame, setFen, setActualMovesPlayed]);
+
+  /**
+   * Time left on a clock at time `at`. Only the side to move at the end of
+   * the game is running; looking back through the game doesn't stop it.
+   */
+  const getRemainingTime = useCallback((color: 'w' | 'b', at: number): number => {
+    if (!timeControl) return Infinity;
+    const banked = getClockAt(moveTree, tipId, color, timeControl.initial);
+    return color === tipTurn && turnStartedAt !== null ? banked - (at - turnStartedAt) : banked;
+  }, [timeControl, moveTree, tipId, tipTurn, turnStartedAt]);
+
+  /**
+   * Plays a move from the position on the board. A move played from an
+   * earlier position, or inside a variation, becomes the main line; the
+   * line it replaces is kept as a variation.
+   * Returns false if chess.js rejects it as illegal.
+   */
+  const playMove = useCallback((move: { from: string; to: string; promotion?: string }): boolean => {
+    if (ending) return false;
 
-    // ----------------------------------------------------------------
-    // --- THIS IS THE FIX (V4 - Robust Check) ---
-    // ----------------------------------------------------------------
+    let added;
+    try {
+      added = addMove(moveTree, currentNodeId, move);
+    } catch {
+      return false; // chess.js throws on illegal moves
+    }
 
-    // 1. Check if the move object itself is valid
-    if (!aiMoveObject || Object.keys(aiMoveObject).length === 0) {
-      console.warn("AI returned no move. Game is likely over.");
-      return; // Stop if no move was found
+    // Charge the mover for their thinking time. Continuing from an earlier
+    // position (after a takeback) restores the clocks from that point.
+    let tree = added.tree;
+    if (timeControl) {
+      const mover = tree.nodes[added.id].color;
+      const before = currentNodeId === tipId
+        ? getRemainingTime(mover, Date.now())
+        : getClockAt(moveTree, currentNodeId, mover, timeControl.initial);
+      tree = setClock(tree, added.id, before + timeControl.increment);
     }
 
-    // 2. Extract the 'from' and 'to' squares
-    const fromSquare = Object.keys(aiMoveObject)[0];
-    const toSquare = aiMoveObject[fromSquare];
+    // A move lapses any draw offer still being considered
+    drawOfferAbortRef.current?.abort();
+    setDrawOffer(null);
+
+    const newGame = showNode(promoteToMainline(tree, added.id), added.id);
+    setTurnStartedAt(timeControl && !getBoardOutcome(newGame) ? Date.now() : null);
+    return true;
+  }, [ending, moveTree, currentNodeId, tipId, timeControl, getRemainingTime, showNode]);
+
+  /**
+   * Applies a move chosen by the AI engine to the game.
+   */
+  const applyAiMove = useCallback((aiMove: OpponentMove) => {
+    const played = playMove({
+      from: aiMove.from,
+      to: aiMove.to,
+      promotion: aiMove.promotion, // The piece the engine actually chose
+    });
+    if (!played) {
+      // This should not happen, but it's a good safety log.
+      console.error("AI move was rejected by chess.js as invalid:", aiMove);
+    }
+    setStepRequested(false);
+  }, [playMove]);
 
-    // 3. Check if *both* squares are valid strings before calling .toLowerCase()
-    if (!fromSquare || !toSquare) {
-      console.error("AI returned an invalid/malformed move:", aiMoveObject);
-      return; // Stop if the move object is malformed
+  /**
+   * This function is called when it's the AI's turn to move.
+   * It asks the selected engine for a move at the current difficulty
+   * without blocking the UI, then plays it.
+   */
+  const makeAiMove = useCallback(async (signal: AbortSignal) => {
+    setIsAiThinking(true);
+    try {
+      const clock: OpponentClock | undefined = timeControl ? {
+        wtime: getRemainingTime('w', Date.now()),
+        btime: getRemainingTime('b', Date.now()),
+        winc: timeControl.increment,
+        binc: timeControl.increment,
+      } : undefined;
+      const aiMove = await getOpponentMove(game.fen(), opponentLevel, signal, clock);
+      if (!aiMove) {
+        console.warn("AI returned no move. Game is likely over.");
+        return;
+      }
+      applyAiMove(aiMove);
+    } catch (error) {
+      // A cancelled search just means the position changed under it
+      if (!(error instanceof EngineCancelledError)) {
+        console.error("AI failed to find a move:", error);
+      }
+    } finally {
+      setIsAiThinking(false);
     }
-    // ----------------------------------------------------------------
-    // --- END FIX ---
-    // ----------------------------------------------------------------
-
-    // 4. Now we are safe. Create the move object for chess.js.
-    const moveForChessJs = {
-      from: fromSquare.toLowerCase(),
-      to: toSquare.toLowerCase(),
-      promotion: 'q', // Always promote to queen for simplicity
-    };
+  }, [game, opponentLevel, timeControl, getRemainingTime, applyAiMove]);
+
+  /**
+   * Runs the clock of the side to move, and ends the game when it hits
+   * zero: a loss on time, or a draw if the opponent couldn't mate anyway.
+   */
+  useEffect(() => {
+    if (!timeControl || turnStartedAt === null || ending) return;
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (getRemainingTime(tipTurn, current) > 0) return;
 
-    // 5. Apply this move to our main chess.js instance.
-    const gameCopy = new Chess(game.fen());
-    const moveResult = gameCopy.move(moveForChessJs);
-
-    if (moveResult) {
-      // 6. Update our game state and FEN.
-      setGame(gameCopy);
-      setFen(gameCopy.fen());
-      setFenHistory(prev => [...prev, gameCopy.fen()]);
-      setRedoStack([]);
-      setActualMovesPlayed(prev => [...prev, moveResult.san]);
+      const opponent = tipTurn === 'w' ? 'b' : 'w';
+      const opponentCanWin = canCheckmate(new Chess(moveTree.nodes[tipId].fen), opponent);
+      setEnding({
+        result: opponentCanWin ? (opponent === 'w' ? '1-0' : '0-1') : '1/2-1/2',
+        reason: 'timeout',
+        loser: tipTurn,
+      });
+      setTurnStartedAt(null);
+    }, 100);
+    return () => clearInterval(interval);
+  }, [timeControl, turnStartedAt, ending, tipTurn, tipId, moveTree, getRemainingTime]);
+
+  /**
+   * Reports who is playing which side, for PGN headers.
+   */
+  useEffect(() => {
+    const aiName = describeOpponent(opponentLevel);
+    if (gameMode === 'hotseat') {
+      onPlayersChange?.({ white: 'Player 1', black: 'Player 2' });
+    } else if (gameMode === 'ai-vs-ai') {
+      onPlayersChange?.({ white: aiName, black: aiName });
     } else {
-      // This should not happen now, but it's a good safety log.
-      console.error(
-        "AI move was rejected by chess.js as invalid:",
-        moveForChessJs
+      onPlayersChange?.(
+        playerColor === 'w' ? { white: 'You', black: aiName } : { white: aiName, black: 'You' }
       );
     }
-  }, [game, difficulty, setActualMovesPlayed]);
+  }, [gameMode, playerColor, opponentLevel, onPlayersChange]);
+
+  /**
+   * Reports everything needed to resume this game later.
+   */
+  useEffect(() => {
+    onSessionChange?.({
+      moveTree, currentNodeId, gameMode, playerColor, opponentEngine, difficulty, timeControl, ending,
+    });
+  }, [
+    moveTree, currentNodeId, gameMode, playerColor, opponentEngine, difficulty, timeControl, ending,
+    onSessionChange,
+  ]);
+
+  /**
+   * Reports the finished game so it can be analyzed.
+   */
+  useEffect(() => {
+    if (outcome && onGameComplete) {
+      onGameComplete(actualMovesPlayed, outcome);
+    }
+  }, [outcome, onGameComplete, actualMovesPlayed]);
 
   /**
    * This useEffect hook is the main game loop.
-   * It runs whenever the FEN or playerColor changes.
+   * It runs whenever the FEN, playerColor or game mode changes.
    * It checks if it's the AI's turn and, if so, triggers its move.
+   * The AI stays put while the player is looking back through the game,
+   * and while an AI-vs-AI game is paused (apart from a single step).
+   */
+  useEffect(() => {
+    if (!atGameEnd || outcome || !aiToMove) return;
+    if (gameMode === 'ai-vs-ai' && isPaused && !stepRequested) return;
+
+    const delay = gameMode !== 'ai-vs-ai' ? 500 : stepRequested ? 0 : aiMoveDelay;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      makeAiMove(controller.signal);
+    }, delay);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [fen, aiToMove, gameMode, isPaused, stepRequested, aiMoveDelay, atGameEnd, outcome, makeAiMove]);
+
+  // Drop a draw offer still being considered when the board goes away
+  useEffect(() => {
+    return () => drawOfferAbortRef.current?.abort();
+  }, []);
+
+  /**
+   * Left and right arrow keys step through the moves.
    */
   useEffect(() => {
-    if (game.isGameOver()) {
-      // Game just ended, pass the actual moves played for analysis
-      if (onGameComplete) {
-        onGameComplete(actualMovesPlayed);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement
+        || e.target instanceof HTMLSelectElement) return;
+      const node = moveTree.nodes[currentNodeId];
+      if (e.key === 'ArrowLeft' && node.parent !== null) {
+        showNode(moveTree, node.parent);
+      } else if (e.key === 'ArrowRight' && node.children.length > 0) {
+        showNode(moveTree, node.children[0]);
       }
-      return;
-    }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [moveTree, currentNodeId, showNode]);
 
-    if (!game.isGameOver() && game.turn() !== playerColor) {
-      const timer = setTimeout(() => {
-        makeAiMove();
-      }, 500);
-      return () => clearTimeout(timer);
-    }
-  }, [fen, playerColor, game, makeAiMove, onGameComplete, actualMovesPlayed]);
+  /**
+   * Shows the mainline position the parent asked for, e.g. from the
+   * analysis graph.
+   */
+  useEffect(() => {
+    if (!jumpToPly || jumpToPly === handledJumpRef.current) return;
+    handledJumpRef.current = jumpToPly;
+    const mainline = getMainline(moveTree);
+    const node = jumpToPly.ply === 0 ? moveTree.nodes[ROOT_ID] : mainline[jumpToPly.ply - 1];
+    if (node) showNode(moveTree, node.id);
+  }, [jumpToPly, moveTree, showNode]);
 
   /**
    * This handler is called by react-chessboard when the
@@ -145,32 +438,32 @@ export function ChessTutorGame({
    */
   function onPieceDrop(sourceSquare: string, targetSquare: string): boolean {
     // 1. Check if it's even the player's turn.
-    if (game.turn() !== playerColor) {
+    if (!isHumanColor(game.turn()) || pendingPromotion) {
       return false;
     }
 
-    // 2. Create a copy of the game to safely try the move.
-    const gameCopy = new Chess(game.fen());
-
-    // 3. Try to make the move. Default to queen promotion.
-    const move = gameCopy.move({
-      from: sourceSquare,
-      to: targetSquare,
-      promotion: 'q',
-    });
+    // 2. If this is a legal pawn move to the last rank, ask which piece
+    //    to promote to before playing it.
+    const isPromotion = game
+      .moves({ square: sourceSquare as Square, verbose: true })
+      .some((m) => m.to === targetSquare && m.promotion);
 
-    // 4. If the move is illegal, chess.js returns null.
-    if (move === null) {
-      return false; // Tell react-chessboard the move was invalid.
+    if (isPromotion) {
+      setPendingPromotion({ from: sourceSquare, to: targetSquare });
+      return false; // The pawn snaps back until a piece is chosen.
     }
 
-    setGame(gameCopy);
-    setFen(gameCopy.fen());
-    setFenHistory(prev => [...prev, gameCopy.fen()]);
-    setRedoStack([]);
-    setActualMovesPlayed(prev => [...prev, move.san]);
+    // 3. Otherwise try the move directly.
+    return playMove({ from: sourceSquare, to: targetSquare });
+  }
 
-    return true; // Tell react-chessboard the move was successful.
+  /**
+   * Completes a pending promotion with the piece picked in the dialog.
+   */
+  function handlePromotionSelect(piece: string) {
+    if (!pendingPromotion) return;
+    playMove({ from: pendingPromotion.from, to: pendingPromotion.to, promotion: piece });
+    setPendingPromotion(null);
   }
 
   // ----------------------------------------------------------------
@@ -181,65 +474,126 @@ export function ChessTutorGame({
    * Starts a completely new game.
    */
   function handleNewGame() {
-    const newGame = new Chess();
-    setGame(newGame);
-    setFen(newGame.fen());
+    drawOfferAbortRef.current?.abort();
+    showNode(createMoveTree(DEFAULT_POSITION), ROOT_ID);
+    setEnding(null);
+    setDrawOffer(null);
+    setTurnStartedAt(null);
     setPlayerColor('w');
-    setRedoStack([]);
-    setFenHistory([newGame.fen()]);
-    setActualMovesPlayed([]);
+    onNewGame?.();
+  }
+
+  /**
+   * Resigns the game for the player. In hotseat games the side to move resigns.
+   */
+  function handleResign() {
+    const loser = gameMode === 'hotseat' ? tipTurn : playerColor;
+    if (!window.confirm(`Resign this game for ${loser === 'w' ? 'White' : 'Black'}?`)) return;
+    drawOfferAbortRef.current?.abort();
+    setEnding({ result: loser === 'w' ? '0-1' : '1-0', reason: 'resignation', loser });
+    setTurnStartedAt(null);
+    goToNode(tipId);
+  }
+
+  /**
+   * Offers the AI a draw. It accepts when the engine says it is worse,
+   * or when the position is level late in the game. In hotseat games the
+   * other player is asked instead.
+   */
+  async function handleOfferDraw() {
+    if (gameMode === 'hotseat') {
+      const opponent = tipTurn === 'w' ? 'Black' : 'White';
+      if (window.confirm(`${tipTurn === 'w' ? 'White' : 'Black'} offers a draw. ${opponent}, do you accept?`)) {
+        setEnding({ result: '1/2-1/2', reason: 'agreement' });
+        setTurnStartedAt(null);
+        goToNode(tipId);
+      }
+      return;
+    }
+
+    const controller = new AbortController();
+    drawOfferAbortRef.current = controller;
+    setDrawOffer('pending');
+    try {
+      const accepted = await respondToDrawOffer(moveTree.nodes[tipId].fen, playerColor, controller.signal);
+      if (controller.signal.aborted) return;
+      if (accepted) {
+        setEnding({ result: '1/2-1/2', reason: 'agreement' });
+        setTurnStartedAt(null);
+        setDrawOffer(null);
+      } else {
+        setDrawOffer('declined');
+      }
+    } catch (error) {
+      if (!(error instanceof EngineCancelledError)) {
+        console.error('Could not evaluate the draw offer:', error);
+        setDrawOffer(null);
+      }
+    }
   }
 
   /**
-   * Undoes the last two moves (player + AI).
+   * Jumps the board to the position after a move.
+   */
+  function goToNode(id: number) {
+    showNode(moveTree, id);
+  }
+
+  /**
+   * Takes back the player's last move (and the AI's reply). The moves stay
+   * in the tree, so Redo or the move list can bring them back, and playing
+   * something else turns them into a variation. In hotseat games this is
+   * a single move.
    */
   function handleUndo() {
-    // Need at least 3 positions to undo (initial + player move + AI move)
-    if (fenHistory.length <= 2) return;
-    
-    // Go back two moves (player + AI)
-    const previousFen = fenHistory[fenHistory.length - 3];
-    const newGame = new Chess(previousFen);
-    
-    // Store the two undone positions in the redo stack
-    const movedUndone = [
-        fenHistory[fenHistory.length - 1], // AI move
-        fenHistory[fenHistory.length - 2], // Player move
-    ];
-    
-    setRedoStack(prev => [...movedUndone, ...prev]);
-    setFenHistory(prev => prev.slice(0, -2));
-    setGame(newGame);
-    setFen(previousFen);
-}
+    let node = moveTree.nodes[currentNodeId];
+    do {
+      if (node.parent === null) return;
+      node = moveTree.nodes[node.parent];
+    } while (node.parent !== null && !isHumanColor(new Chess(node.fen).turn()));
+    goToNode(node.id);
+  }
 
   /**
-   * Redoes the last two moves (player + AI).
+   * Steps forward again to the next position with a human to move.
    */
   function handleRedo() {
-    // Need at least 2 positions in the redo stack (player + AI moves)
-    if (redoStack.length < 2) return;
-    
-    // Get the two moves to redo
-    const [aiMove, playerMove, ...remainingStack] = redoStack;
-    
-    // Restore the position after both moves
-    const newGame = new Chess(aiMove);
-    
-    setGame(newGame);
-    setFen(aiMove);
-    setFenHistory(prev => [...prev, playerMove, aiMove]);
-    setRedoStack(remainingStack);
+    let node = moveTree.nodes[currentNodeId];
+    do {
+      if (node.children.length === 0) return;
+      node = moveTree.nodes[node.children[0]];
+    } while (node.children.length > 0 && !isHumanColor(new Chess(node.fen).turn()));
+    goToNode(node.id);
   }
 
   /**
    * Swaps sides. The player takes over the AI's pieces
-   * and the AI takes over the player's.
+   * and the AI takes over the player's. In the other modes this
+   * just flips the board.
    */
   function handleSwapSides() {
     setPlayerColor(playerColor === 'w' ? 'b' : 'w');
   }
 
+  /**
+   * Switches between human vs AI, hotseat and AI vs AI. The game on the
+   * board carries on in the new mode.
+   */
+  function handleGameModeChange(e: React.ChangeEvent<HTMLSelectElement>) {
+    drawOfferAbortRef.current?.abort();
+    setDrawOffer(null);
+    setGameMode(e.target.value as GameMode);
+    setIsPaused(false);
+    setStepRequested(false);
+  }
+
+  /**
+   * Picks the time control. It can only change before the first move.
+   */
+  function handleTimeControlChange(e: React.ChangeEvent<HTMLSelectElement>) {
+    setTimeControl(TIME_CONTROLS.find((control) => control.id === e.target.value) ?? null);
+  }
+
   /**
    * Handles the selection change from the difficulty dropdown.
    */
@@ -247,6 +601,22 @@ export function ChessTutorGame({
     setDifficulty(Number(e.target.value));
   }
 
+  /**
+   * Switches the AI engine, keeping the closest available rating.
+   */
+  function handleOpponentEngineChange(e: React.ChangeEvent<HTMLSelectElement>) {
+    const engine = e.target.value as OpponentEngine;
+    const levels = OPPONENT_LEVELS[engine];
+    let closest = 0;
+    levels.forEach((level, index) => {
+      if (Math.abs(level.rating - opponentLevel.rating) < Math.abs(levels[closest].rating - opponentLevel.rating)) {
+        closest = index;
+      }
+    });
+    setOpponentEngine(engine);
+    setDifficulty(closest);
+  }
+
   // ----------------------------------------------------------------
   // HELPER / STATUS FUNCTIONS
   // ----------------------------------------------------------------
@@ -255,14 +625,22 @@ export function ChessTutorGame({
    * Generates a status message based on the current game state.
    */
   function getGameStatus(): string {
-    if (game.isCheckmate()) {
-      return `Checkmate! ${game.turn() === 'w' ? 'Black' : 'White'} wins.`;
+    if (outcome) {
+      return describeOutcome(outcome);
+    }
+    // Looking back at a finished position from earlier in the game
+    const boardOutcome = getBoardOutcome(game);
+    if (boardOutcome) {
+      return describeOutcome(boardOutcome);
     }
-    if (game.isDraw()) {
-      return 'Game is a draw.';
+    if (drawOffer === 'pending') {
+      return 'AI is considering your draw offer...';
     }
-    if (game.isStalemate()) {
-      return 'Stalemate.';
+    if (drawOffer === 'declined') {
+      return 'The AI declined your draw offer.';
+    }
+    if (isAiThinking) {
+      return 'AI is thinking...';
     }
     if (game.inCheck()) {
       return `Check! ${game.turn() === 'w' ? 'White' : 'Black'} to move.`;
@@ -270,10 +648,61 @@ export function ChessTutorGame({
     return `${game.turn() === 'w' ? 'White' : 'Black'} to move.`;
   }
 
+  /**
+   * Arrows for the engine's top moves in the current position, and the
+   * tutor's suggestion and the opponent's threat if they are for this
+   * position.
+   */
+  function getArrows() {
+    const arrows = [];
+    if (showArrows && !engineHidden && liveAnalysis.fen === fen) {
+      arrows.push(...liveAnalysis.lines.slice(0, arrowCount).map((line, index) => ({
+        startSquare: line.pv[0].slice(0, 2),
+        endSquare: line.pv[0].slice(2, 4),
+        color: ENGINE_ARROW_COLORS[index],
+      })));
+    }
+    if (previewMove && previewMove.fen === fen) {
+      arrows.push({
+        startSquare: previewMove.uci.slice(0, 2),
+        endSquare: previewMove.uci.slice(2, 4),
+        color: TUTOR_ARROW_COLOR,
+      });
+    }
+    if (threatMove && threatMove.fen === fen) {
+      arrows.push({
+        startSquare: threatMove.uci.slice(0, 2),
+        endSquare: threatMove.uci.slice(2, 4),
+        color: THREAT_ARROW_COLOR,
+      });
+    }
+    return arrows;
+  }
+
+  /**
+   * Highlights for the squares a tutor hint points at, if it is for the
+   * current position.
+   */
+  function getSquareStyles() {
+    if (!hintFocus || hintFocus.fen !== fen) return {};
+    return {
+      [hintFocus.from]: HINT_PIECE_STYLE,
+      ...(hintFocus.to ? { [hintFocus.to]: HINT_TARGET_STYLE } : {}),
+    };
+  }
+
   // ----------------------------------------------------------------
   // RENDER (JSX)
   // ----------------------------------------------------------------
 
+  const renderClock = (color: 'w' | 'b') => (
+    <ChessClock
+      time={getRemainingTime(color, now)}
+      active={turnStartedAt !== null && !ending && tipTurn === color}
+      label={`${color === 'w' ? 'White' : 'Black'}${gameMode === 'human-vs-ai' && color === playerColor ? ' (You)' : ''}`}
+    />
+  );
+
   // Set status text color: white when White to move, black when Black to move, otherwise white
   const statusColor = game.turn() === 'w' ? 'white' : game.turn() === 'b' ? 'black' : 'white';
 
@@ -291,14 +720,14 @@ export function ChessTutorGame({
           <button
             style={styles.button}
             onClick={handleUndo}
-            disabled={fenHistory.length <= 2} // Changed from game.history().length === 0
+            disabled={currentNodeId === ROOT_ID || gameMode === 'ai-vs-ai'}
           >
             Undo
           </button>
           <button
             style={styles.button}
             onClick={handleRedo}
-            disabled={redoStack.length === 0}
+            disabled={moveTree.nodes[currentNodeId].children.length === 0 || gameMode === 'ai-vs-ai'}
           >
             Redo
           </button>
@@ -306,13 +735,130 @@ export function ChessTutorGame({
             New Game
           </button>
           <button style={styles.button} onClick={handleSwapSides}>
-            Swap Sides<br></br>(Play as {playerColor === 'w' ? 'Black' : 'White'})
+            {gameMode === 'human-vs-ai' ? (
+              <>Swap Sides<br></br>(Play as {playerColor === 'w' ? 'Black' : 'White'})</>
+            ) : (
+              'Flip Board'
+            )}
+          </button>
+          <button
+            style={styles.button}
+            onClick={handleOfferDraw}
+            disabled={
+              outcome !== null || !atGameEnd || drawOffer !== null || tipId === ROOT_ID || gameMode === 'ai-vs-ai'
+            }
+          >
+            Offer Draw
+          </button>
+          <button
+            style={styles.button}
+            onClick={handleResign}
+            disabled={outcome !== null || tipId === ROOT_ID || gameMode === 'ai-vs-ai'}
+          >
+            Resign
           </button>
+          {onSetupPosition && (
+            <button style={{ ...styles.button, gridColumn: 'span 2' }} onClick={onSetupPosition}>
+              Set Up Position
+            </button>
+          )}
+        </div>
+
+        <div style={styles.difficultyControl}>
+          <span style={styles.label}>Moves:</span>
+          <MoveList tree={moveTree} currentId={currentNodeId} onSelect={goToNode} />
+          <div style={styles.navigation}>
+            <button style={styles.navButton} onClick={() => goToNode(ROOT_ID)} disabled={currentNodeId === ROOT_ID} title="Start">
+              ⏮
+            </button>
+            <button
+              style={styles.navButton}
+              onClick={() => goToNode(moveTree.nodes[currentNodeId].parent ?? ROOT_ID)}
+              disabled={currentNodeId === ROOT_ID}
+              title="Previous move"
+            >
+              ◀
+            </button>
+            <button
+              style={styles.navButton}
+              onClick={() => goToNode(moveTree.nodes[currentNodeId].children[0])}
+              disabled={moveTree.nodes[currentNodeId].children.length === 0}
+              title="Next move"
+            >
+              ▶
+            </button>
+            <button
+              style={styles.navButton}
+              onClick={() => goToNode(getLineEnd(moveTree, ROOT_ID))}
+              disabled={atGameEnd}
+              title="Latest position"
+            >
+              ⏭
+            </button>
+          </div>
+        </div>
+
+        <div style={styles.difficultyControl}>
+          <label htmlFor="game-mode" style={styles.label}>
+            Game Mode:
+          </label>
+          <select id="game-mode" value={gameMode} onChange={handleGameModeChange} style={styles.select}>
+            <option value="human-vs-ai">Human vs AI</option>
+            <option value="hotseat">Two players (hotseat)</option>
+            <option value="ai-vs-ai">AI vs AI (watch)</option>
+          </select>
+          {gameMode === 'ai-vs-ai' && (
+            <>
+              <label htmlFor="ai-delay" style={styles.label}>
+                Delay between moves:
+              </label>
+              <select
+                id="ai-delay"
+                value={aiMoveDelay}
+                onChange={(e) => setAiMoveDelay(Number(e.target.value))}
+                style={styles.select}
+              >
+                {AI_VS_AI_DELAYS.map((delay) => (
+                  <option key={delay} value={delay}>
+                    {delay / 1000} s
+                  </option>
+                ))}
+              </select>
+              <div style={styles.navigation}>
+                <button
+                  style={{ ...styles.navButton, gridColumn: 'span 2' }}
+                  onClick={() => setIsPaused(!isPaused)}
+                  disabled={outcome !== null}
+                >
+                  {isPaused ? '▶ Resume' : '⏸ Pause'}
+                </button>
+                <button
+                  style={{ ...styles.navButton, gridColumn: 'span 2' }}
+                  onClick={() => setStepRequested(true)}
+                  disabled={!isPaused || stepRequested || outcome !== null || !atGameEnd}
+                >
+                  Step ⏭
+                </button>
+              </div>
+            </>
+          )}
         </div>
 
         <div style={styles.difficultyControl}>
+          <label htmlFor="opponent-engine" style={styles.label}>
+            AI Engine:
+          </label>
+          <select
+            id="opponent-engine"
+            value={opponentEngine}
+            onChange={handleOpponentEngineChange}
+            style={styles.select}
+          >
+            <option value="js-chess-engine">js-chess-engine</option>
+            <option value="stockfish">Stockfish</option>
+          </select>
           <label htmlFor="difficulty" style={styles.label}>
-            AI Difficulty:
+            AI Difficulty (rating):
           </label>
           <select
             id="difficulty"
@@ -320,21 +866,87 @@ export function ChessTutorGame({
             onChange={handleDifficultyChange}
             style={styles.select}
           >
-            <option value={0}>Level 0 (Beginner)</option>
-            <option value={1}>Level 1 (Easy)</option>
-            <option value={2}>Level 2 (Medium)</option>
-            <option value={3}>Level 3 (Hard)</option>
-            <option value={4}>Level 4 (Expert)</option>
+            {OPPONENT_LEVELS[opponentEngine].map((level, index) => (
+              <option key={level.label} value={index}>
+                {level.label}
+              </option>
+            ))}
           </select>
+          <label htmlFor="time-control" style={styles.label}>
+            Time Control:
+          </label>
+          <select
+            id="time-control"
+            value={timeControl?.id ?? 'untimed'}
+            onChange={handleTimeControlChange}
+            disabled={moveTree.nodes[ROOT_ID].children.length > 0}
+            style={styles.select}
+          >
+            <option value="untimed">Untimed</option>
+            {TIME_CONTROLS.map((control) => (
+              <option key={control.id} value={control.id}>
+                {control.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div style={styles.difficultyControl}>
+          <span style={styles.label}>Engine Overlays:</span>
+          <label style={styles.checkboxLabel}>
+            <input
+              type="checkbox"
+              checked={showEvalBar}
+              onChange={(e) => setShowEvalBar(e.target.checked)}
+            />
+            Evaluation bar
+          </label>
+          <label style={styles.checkboxLabel}>
+            <input
+              type="checkbox"
+              checked={showArrows}
+              onChange={(e) => setShowArrows(e.target.checked)}
+            />
+            Best-move arrows
+            <select
+              value={arrowCount}
+              onChange={(e) => setArrowCount(Number(e.target.value))}
+              disabled={!showArrows}
+              style={styles.inlineSelect}
+            >
+              <option value={1}>Top 1</option>
+              <option value={2}>Top 2</option>
+              <option value={3}>Top 3</option>
+            </select>
+          </label>
+          <label style={styles.checkboxLabel}>
+            <input
+              type="checkbox"
+              checked={trainingMode}
+              onChange={(e) => setTrainingMode(e.target.checked)}
+            />
+            Training mode (hide on my turn)
+          </label>
         </div>
       </div>
 
       {/* The Chessboard UI Component */}
       <div style={styles.boardContainer}>
+        {showEvalBar && (
+          <EvalBar
+            score={engineHidden ? null : liveAnalysis.score}
+            result={engineHidden ? null : liveAnalysis.result}
+            orientation={playerColor === 'w' ? 'white' : 'black'}
+          />
+        )}
+        <div style={styles.board}>
+        {timeControl && renderClock(playerColor === 'w' ? 'b' : 'w')}
         <Chessboard
         options = {{
           id: "ChessTutorBoard",
           position: fen,
+          arrows: getArrows(),
+          squareStyles: getSquareStyles(),
           onPieceDrop: ({ sourceSquare, targetSquare }) => {
             if (!sourceSquare || !targetSquare) return false;
             return onPieceDrop(sourceSquare, targetSquare);
@@ -344,6 +956,21 @@ export function ChessTutorGame({
           boardOrientation: playerColor === 'w' ? 'white' : 'black',
         }}
       />
+        {timeControl && renderClock(playerColor)}
+        {opening && (
+          <div style={styles.opening}>
+            <span style={styles.openingCode}>{opening.eco}</span>
+            {opening.name}
+          </div>
+        )}
+        </div>
+        {pendingPromotion && (
+          <PromotionDialog
+            color={game.turn()}
+            onSelect={handlePromotionSelect}
+            onCancel={() => setPendingPromotion(null)}
+          />
+        )}
       </div>
     </div>
   );
@@ -365,12 +992,35 @@ const styles: { [key: string]: React.CSSProperties } = {
     alignItems: 'flex-start',
   },
   boardContainer: {
+    position: 'relative',
     width: '500px',           // Board stays fixed
     maxWidth: '90vw',
     backgroundColor: '#4e3a2b',
     padding: '20px',
     borderRadius: '12px',
     flexShrink: 0,
+    display: 'flex',
+    alignItems: 'stretch',
+    gap: '10px',
+  },
+  board: {
+    flex: 1,
+    minWidth: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+  },
+  opening: {
+    padding: '6px 12px',
+    borderRadius: '4px',
+    backgroundColor: '#3b2c20',
+    color: '#c8b8a6',
+    fontSize: '0.9rem',
+  },
+  openingCode: {
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+    marginRight: '8px',
   },
   controlsContainer: {
     // 1. MATCH WIDTH: This must match the width of the AI Tutor exactly
@@ -415,6 +1065,32 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontSize: '1rem',
     fontWeight: '600',
   },
+  checkboxLabel: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    fontSize: '0.95rem',
+  },
+  navigation: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(4, 1fr)',
+    gap: '6px',
+  },
+  navButton: {
+    padding: '6px',
+    fontSize: '1rem',
+    border: 'none',
+    borderRadius: '4px',
+    backgroundColor: '#b58863',
+    color: 'white',
+    cursor: 'pointer',
+  },
+  inlineSelect: {
+    marginLeft: 'auto',
+    padding: '4px',
+    borderRadius: '4px',
+    backgroundColor: '#b58863',
+  },
   select: {
     padding: '10px',
     fontSize: '1rem',
@@ -0,0 +1,80 @@
+import React from 'react';
+import { formatScore, type EngineScore } from '../engine/engineScore';
+
+interface EvalBarProps {
+  score: EngineScore | null;                // From White's point of view
+  result?: '1-0' | '0-1' | '1/2-1/2' | null; // Overrides the score once the game is over
+  orientation: 'white' | 'black';           // White's share is drawn at the bottom for 'white'
+}
+
+/**
+ * Converts a score into White's share of the bar (0-100).
+ * Centipawns go through a logistic curve so a few pawns already
+ * fill most of the bar, the way players perceive winning chances.
+ */
+function whiteShare(score: EngineScore | null, result: EvalBarProps['result']): number {
+  if (result === '1-0') return 100;
+  if (result === '0-1') return 0;
+  if (result === '1/2-1/2' || !score) return 50;
+  if (score.type === 'mate') return score.value > 0 ? 100 : 0;
+  const winChance = 2 / (1 + Math.exp(-0.004 * score.value)) - 1;
+  return 50 + 50 * winChance;
+}
+
+/**
+ * Vertical evaluation bar shown next to the board.
+ */
+export function EvalBar({ score, result, orientation }: EvalBarProps) {
+  const share = whiteShare(score, result);
+  const label = result ?? (score ? formatScore(score) : '…');
+  const whiteAhead = share >= 50;
+
+  return (
+    <div
+      style={{
+        ...styles.bar,
+        flexDirection: orientation === 'white' ? 'column-reverse' : 'column',
+      }}
+      title={label}
+    >
+      <div style={{ ...styles.whiteFill, height: `${share}%` }} />
+      <span
+        style={{
+          ...styles.label,
+          color: whiteAhead ? '#2c3e50' : '#ecf0f1',
+          // Print the label on the side of whoever is ahead
+          [whiteAhead === (orientation === 'white') ? 'bottom' : 'top']: '4px',
+        }}
+      >
+        {label}
+      </span>
+    </div>
+  );
+}
+
+const styles: { [key: string]: React.CSSProperties } = {
+  bar: {
+    position: 'relative',
+    display: 'flex',
+    width: '28px',
+    flexShrink: 0,
+    backgroundColor: '#403d39',
+    borderRadius: '4px',
+    overflow: 'hidden',
+  },
+  whiteFill: {
+    width: '100%',
+    backgroundColor: '#f0f0f0',
+    transition: 'height 0.4s ease',
+  },
+  label: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    textAlign: 'center',
+    fontSize: '0.65rem',
+    fontWeight: 'bold',
+  },
+};
+
+export default EvalBar;
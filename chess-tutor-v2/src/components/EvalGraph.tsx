@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { winPercent } from '../chess/accuracy';
+import { mateIn } from '../engine/engineScore';
+import type { GameAnalysis } from '../types/analysis';
+
+interface EvalGraphProps {
+  analysis: GameAnalysis[];
+  currentPly?: number | null;          // Ply shown on the board, marked on the graph
+  onSelect?: (ply: number) => void;    // Clicked a point; ply 1 is the position after the first move
+}
+
+const WIDTH = 560;
+const HEIGHT = 140;
+
+// Plies marked with a dot, in the classification colours of the move list
+const MARKED: Partial<Record<GameAnalysis['classification'], string>> = {
+  brilliant: '#1abc9c',
+  great: '#2980b9',
+  inaccuracy: '#f39c12',
+  mistake: '#e67e22',
+  miss: '#9b59b6',
+  blunder: '#e74c3c',
+};
+
+/**
+ * Evaluation in pawns, or "#3" / "#-3" for a forced mate.
+ */
+function formatEvaluation(cp: number): string {
+  const mate = mateIn(cp);
+  if (mate !== null) return mate === 0 ? '#' : `#${mate}`;
+  const pawns = (cp / 100).toFixed(2);
+  return cp > 0 ? `+${pawns}` : pawns;
+}
+
+/**
+ * White's winning chances over the game. White's share is filled from the
+ * bottom, so the line rises while White is better. Clicking the graph
+ * picks the nearest move.
+ */
+export function EvalGraph({ analysis, currentPly, onSelect }: EvalGraphProps) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const x = (index: number) => (analysis.length > 1 ? (index / (analysis.length - 1)) * WIDTH : WIDTH / 2);
+  const y = (cp: number) => HEIGHT - (winPercent(cp) / 100) * HEIGHT;
+
+  const line = analysis.map((entry, index) => `${x(index)},${y(entry.evaluation)}`).join(' ');
+  const area = `0,${HEIGHT} ${line} ${WIDTH},${HEIGHT}`;
+
+  const indexAt = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = (e.clientX - rect.left) / rect.width;
+    return Math.min(analysis.length - 1, Math.max(0, Math.round(fraction * (analysis.length - 1))));
+  };
+
+  const hovered = hoverIndex !== null ? analysis[hoverIndex] : null;
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.caption}>
+        {hovered
+          ? `${hovered.moveNumber}${hovered.fen.split(' ')[1] === 'b' ? '.' : '...'} ${hovered.move} (${formatEvaluation(hovered.evaluation)})`
+          : onSelect
+          ? 'Click the graph to jump to that position.'
+          : ' '}
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        style={{ ...styles.graph, cursor: onSelect ? 'pointer' : 'default' }}
+        onMouseMove={(e) => setHoverIndex(indexAt(e))}
+        onMouseLeave={() => setHoverIndex(null)}
+        onClick={(e) => onSelect?.(indexAt(e) + 1)}
+      >
+        <rect x={0} y={0} width={WIDTH} height={HEIGHT} fill="#3b2c20" />
+        <polygon points={area} fill="#f0d9b5" />
+        <line x1={0} y1={HEIGHT / 2} x2={WIDTH} y2={HEIGHT / 2} stroke="#b58863" strokeDasharray="4 4" />
+        <polyline points={line} fill="none" stroke="#b58863" strokeWidth={1.5} />
+        {currentPly != null && currentPly > 0 && currentPly <= analysis.length && (
+          <line x1={x(currentPly - 1)} y1={0} x2={x(currentPly - 1)} y2={HEIGHT} stroke="#3498db" strokeWidth={2} />
+        )}
+        {hoverIndex !== null && (
+          <line x1={x(hoverIndex)} y1={0} x2={x(hoverIndex)} y2={HEIGHT} stroke="#7f8c8d" strokeWidth={1} />
+        )}
+        {analysis.map((entry, index) =>
+          MARKED[entry.classification] ? (
+            <circle
+              key={index}
+              cx={x(index)}
+              cy={y(entry.evaluation)}
+              r={4}
+              fill={MARKED[entry.classification]}
+            />
+          ) : null
+        )}
+      </svg>
+    </div>
+  );
+}
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    marginBottom: '25px',
+  },
+  caption: {
+    fontFamily: 'monospace',
+    fontSize: '0.9rem',
+    color: '#7f8c8d',
+    minHeight: '1.3em',
+    marginBottom: '6px',
+    whiteSpace: 'pre',
+  },
+  graph: {
+    display: 'block',
+    width: '100%',
+    height: 'auto',
+    borderRadius: '6px',
+  },
+};
+
+export default EvalGraph;
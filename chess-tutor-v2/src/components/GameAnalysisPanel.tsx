@@ -1,137 +1,255 @@
 import React, { useState } from 'react';
-import { Chess } from 'chess.js';
+import { Chess, DEFAULT_POSITION } from 'chess.js';
+import { formatLine, type PgnMove } from '../chess/pgn';
+import { describeOutcome, type GameOutcome } from '../chess/outcome';
+import { createPuzzle } from '../chess/puzzles';
+import { findOpening, formatOpening, isBookPosition } from '../chess/openings';
+import { computeAccuracy } from '../chess/accuracy';
+import { classifyMove } from '../chess/classification';
+import EvalGraph from './EvalGraph';
+import { addPuzzles } from '../storage/puzzleStore';
+import type { GameAnalysis } from '../types/analysis';
+import type { Puzzle } from '../types/puzzle';
+import type { HintLevel } from '../tutor/hintLevels';
+import { EngineCancelledError, getSharedEngine } from '../engine/stockfishEngine';
+import { MATE_SCORE, scoreForWhite, scoreToCentipawns } from '../engine/engineScore';
+
+interface GameAnalysisPanelProps {
+  moves: string[];
+  startFen?: string;                      // Position the moves start from
+  annotations?: PgnMove[];                // Comments and variations from an imported PGN, one per move
+  outcome?: GameOutcome | null;           // How the game ended, when it was played here
+  hintsUsed?: Record<HintLevel, number>;  // Tutor hints asked for during the game, at each level
+  initialAnalysis?: GameAnalysis[];       // Analysis of a saved game, shown without re-running
+  initialSummary?: string;
+  gameId?: string;                        // Saved game the analysis belongs to, for its puzzles
+  puzzleColors?: ('w' | 'b')[];           // Sides whose mistakes become puzzles
+  currentPly?: number | null;             // Position on the board, as a ply of the analyzed game
+  onPositionSelect?: (ply: number) => void; // Jump the board to the position after this ply
+  onAnalysisComplete?: (analysis: GameAnalysis[]) => void;
+  onSummaryComplete?: (summary: string) => void;
+  onPuzzlesAdded?: (count: number) => void;
+  onClose?: () => void;
+}
 
 /**
- * Type definitions for game analysis
+ * How long Stockfish may think about each position.
+ * 'depth' searches to a fixed ply depth, 'movetime' to a fixed number of milliseconds.
  */
-interface GameAnalysis {
-  moveNumber: number;        // Which move in the game (1, 2, 3, etc.)
-  move: string;              // The move in SAN notation (e.g., "Nf3", "e4")
-  fen: string;               // Position after this move
-  evaluation: number;        // Centipawn evaluation (100 = 1 pawn advantage)
-  classification: 'brilliant' | 'great' | 'good' | 'inaccuracy' | 'mistake' | 'blunder' | 'book';
-  comment?: string;          // Optional comment about the move
+interface EngineSearchLimit {
+  mode: 'depth' | 'movetime';
+  value: number;
 }
 
-interface GameAnalysisPanelProps {
-  moves: string[];
-  onClose?: () => void;
+const HINT_KINDS: Record<HintLevel, [string, string]> = {
+  1: ['general idea', 'general ideas'],
+  2: ['piece to move', 'pieces to move'],
+  3: ['destination square', 'destination squares'],
+  4: ['full line', 'full lines'],
+};
+
+/**
+ * The hints used, e.g. "3 (2 general ideas, 1 full line)", or "none".
+ */
+function describeHints(hintsUsed: Record<HintLevel, number>): string {
+  const levels = ([1, 2, 3, 4] as const).filter((level) => hintsUsed[level] > 0);
+  if (levels.length === 0) return 'none';
+  const total = levels.reduce((sum, level) => sum + hintsUsed[level], 0);
+  const kinds = levels.map((level) => `${hintsUsed[level]} ${HINT_KINDS[level][hintsUsed[level] === 1 ? 0 : 1]}`);
+  return `${total} (${kinds.join(', ')})`;
+}
+
+/**
+ * Engine evaluation of a single position, always from White's perspective.
+ */
+interface PositionEvaluation {
+  cp: number;                // Centipawns (mate scores are mapped to +/- MATE_SCORE)
+  bestMove: string | null;   // Best move in UCI notation (e.g. "e2e4")
+  line: string[];            // Engine's best line in UCI, starting with bestMove
+  lineSan: string[];         // The same line in SAN
+  secondBest: number | null; // Evaluation of the engine's second choice, if there is one
 }
 
-export function GameAnalysisPanel({ moves, onClose }: GameAnalysisPanelProps) {
-  const [analysis, setAnalysis] = useState<GameAnalysis[]>([]);
+export function GameAnalysisPanel({
+  moves,
+  startFen = DEFAULT_POSITION,
+  annotations,
+  outcome,
+  hintsUsed,
+  initialAnalysis = [],
+  initialSummary = '',
+  gameId,
+  puzzleColors = [],
+  currentPly,
+  onPositionSelect,
+  onAnalysisComplete,
+  onSummaryComplete,
+  onPuzzlesAdded,
+  onClose,
+}: GameAnalysisPanelProps) {
+  const [analysis, setAnalysis] = useState<GameAnalysis[]>(initialAnalysis);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [gameSummary, setGameSummary] = useState<string>('');
+  const [analyzedCount, setAnalyzedCount] = useState(0);
+  const [gameSummary, setGameSummary] = useState<string>(initialSummary);
+  // Why the last analysis stopped before the end of the game, if it did
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  // Why the coach's summary couldn't be fetched, if it couldn't
+  const [summaryError, setSummaryError] = useState<string | null>(null);
+  const [searchLimit, setSearchLimit] = useState<EngineSearchLimit>({ mode: 'depth', value: 14 });
+  // Puzzles made from this game's mistakes, once it has been analyzed here
+  const [puzzlesAdded, setPuzzlesAdded] = useState<number | null>(null);
+
+  /**
+   * Searches one position on the shared Stockfish engine.
+   */
+  const evaluatePosition = async (fen: string): Promise<PositionEvaluation> => {
+    const result = await getSharedEngine().analyze(fen, {
+      [searchLimit.mode]: searchLimit.value,
+      multiPv: 2,
+    });
+    const [bestLine, secondLine] = result.lines;
+    return {
+      cp: bestLine ? scoreToCentipawns(scoreForWhite(bestLine.score, fen)) : 0,
+      bestMove: result.bestMove,
+      line: bestLine?.pv ?? [],
+      lineSan: bestLine?.pvSan ?? [],
+      secondBest: secondLine ? scoreToCentipawns(scoreForWhite(secondLine.score, fen)) : null,
+    };
+  };
+
+  /**
+   * Evaluates positions the engine cannot search (checkmate, stalemate, draws)
+   * directly from the rules, and everything else with Stockfish.
+   */
+  const evaluateGamePosition = async (position: Chess): Promise<PositionEvaluation> => {
+    if (position.isCheckmate()) {
+      const winner = position.turn() === 'w' ? -1 : 1;
+      return { cp: winner * MATE_SCORE, bestMove: null, line: [], lineSan: [], secondBest: null };
+    }
+    if (position.isDraw()) {
+      return { cp: 0, bestMove: null, line: [], lineSan: [], secondBest: null };
+    }
+    return evaluatePosition(position.fen());
+  };
 
   /**
    * Analyzes the game using the provided move list
    */
   const analyzeGame = async () => {
     setIsAnalyzing(true);
-    
+    setAnalyzedCount(0);
+    setAnalysisError(null);
+
     // Reconstruct the game from the move list
-    const replayGame = new Chess();
+    const replayGame = new Chess(startFen);
     const analysisResults: GameAnalysis[] = [];
-    
-    for (let i = 0; i < moves.length; i++) {
-      const moveSan = moves[i];
-      
-      // Get position before move
-      const fenBefore = replayGame.fen();
-      
-      try {
-        // Analyze position before the move
-        const response = await fetch(
-          `https://lichess.org/api/cloud-eval?fen=${encodeURIComponent(fenBefore)}&multiPv=1`
-        );
-        const data = await response.json();
-        
-        const evalBefore = data.pvs?.[0]?.cp || 0;
-        const bestMoveUci = data.pvs?.[0]?.moves.split(' ')[0];
-        
+    const puzzles: Puzzle[] = [];
+    // Moves stay "book" until the game leaves the opening table
+    let inBook = true;
+
+    try {
+      await getSharedEngine().newGame();
+
+      // The evaluation after one move is the evaluation before the next,
+      // so each position only has to be searched once.
+      let evalBefore = await evaluateGamePosition(replayGame);
+
+      for (let i = 0; i < moves.length; i++) {
+        const moveSan = moves[i];
+        const moveNumber = replayGame.moveNumber();
+        const fenBefore = replayGame.fen();
+
         // Make the actual move that was played
         const moveResult = replayGame.move(moveSan);
-        
+
         if (!moveResult) {
           console.error('Invalid move in history:', moveSan);
-          continue;
+          break;
         }
-        
+
         // Get evaluation after move
         const fenAfter = replayGame.fen();
-        const responseAfter = await fetch(
-          `https://lichess.org/api/cloud-eval?fen=${encodeURIComponent(fenAfter)}&multiPv=1`
-        );
-        const dataAfter = await responseAfter.json();
-        const evalAfter = dataAfter.pvs?.[0]?.cp || 0;
-        
-        // Calculate evaluation loss (from the perspective of who just moved)
-        const perspective = moveResult.color === 'w' ? 1 : -1;
-        const evalChange = (evalAfter - evalBefore) * perspective;
-        
-        // Classify the move
-        let classification: GameAnalysis['classification'] = 'good';
-        const actualMoveUci = moveResult.from + moveResult.to + (moveResult.promotion || '');
-        
-        if (bestMoveUci === actualMoveUci) {
-          classification = 'brilliant';
-        } else if (evalChange >= -10) {
-          classification = 'great';
-        } else if (evalChange >= -40) {
-          classification = 'good';
-        } else if (evalChange >= -100) {
-          classification = 'inaccuracy';
-        } else if (evalChange >= -200) {
-          classification = 'mistake';
-        } else {
-          classification = 'blunder';
+        const evalAfter = await evaluateGamePosition(replayGame);
+
+        // Classify the move by the expected points it gave away
+        inBook = inBook && isBookPosition(fenAfter);
+        const { classification, comment } = inBook
+          ? { classification: 'book' as const, comment: undefined }
+          : classifyMove({
+              move: moveResult,
+              fenBefore,
+              before: evalBefore.cp,
+              after: evalAfter.cp,
+              bestMove: evalBefore.bestMove,
+              secondBest: evalBefore.secondBest,
+            });
+
+        if (
+          gameId &&
+          (classification === 'mistake' || classification === 'miss' || classification === 'blunder') &&
+          puzzleColors.includes(moveResult.color)
+        ) {
+          const puzzle = createPuzzle(gameId, i, fenBefore, evalBefore.line, moveSan, classification);
+          if (puzzle) puzzles.push(puzzle);
         }
-        
+
         analysisResults.push({
-          moveNumber: Math.floor(i / 2) + 1,
+          moveNumber,
           move: moveSan,
           fen: fenAfter,
-          evaluation: evalAfter,
+          evaluation: evalAfter.cp,
+          evaluationBefore: evalBefore.cp,
           classification,
-          comment: evalChange < -100 ? `Lost ${Math.abs(Math.round(evalChange / 100))} pawns of advantage` : undefined
+          comment,
+          bestMove: evalBefore.lineSan[0],
+          bestLine: evalBefore.lineSan,
         });
-        
-        // Rate limiting
-        await new Promise(resolve => setTimeout(resolve, 300));
-        
-      } catch (error) {
-        console.error('Error analyzing move:', error);
-        // Add move without analysis if API fails
-        const moveResult = replayGame.history({ verbose: true }).pop();
-        if (moveResult) {
-          analysisResults.push({
-            moveNumber: Math.floor(i / 2) + 1,
-            move: moveSan,
-            fen: replayGame.fen(),
-            evaluation: 0,
-            classification: 'good',
-          });
-        }
+        setAnalyzedCount(i + 1);
+
+        evalBefore = evalAfter;
       }
+    } catch (error) {
+      setIsAnalyzing(false);
+      // Cancelled because the engine was wanted elsewhere: back to the start, with no error
+      if (error instanceof EngineCancelledError) return;
+      console.error('Error analyzing game:', error);
+      setAnalysisError(error instanceof Error ? error.message : String(error));
+      return;
     }
-    
+
     setAnalysis(analysisResults);
     setIsAnalyzing(false);
-    
+    onAnalysisComplete?.(analysisResults);
+
+    if (puzzles.length > 0) {
+      try {
+        const added = await addPuzzles(puzzles);
+        setPuzzlesAdded(added);
+        onPuzzlesAdded?.(added);
+      } catch (error) {
+        console.error('Error saving puzzles:', error);
+      }
+    }
+
     // Get AI summary after analysis completes
     await getGameSummary(analysisResults, moves);
   };
 
   const getGameSummary = async (analysisData: GameAnalysis[], moveList: string[]) => {
     // Create a game to check result
-    const resultGame = new Chess();
+    const resultGame = new Chess(startFen);
     moveList.forEach(move => resultGame.move(move));
     
     const mistakes = analysisData.filter(a => a.classification === 'mistake').length;
     const blunders = analysisData.filter(a => a.classification === 'blunder').length;
+    const misses = analysisData.filter(a => a.classification === 'miss').length;
     const inaccuracies = analysisData.filter(a => a.classification === 'inaccuracy').length;
 
-    const result = resultGame.isCheckmate() 
+    const opening = findOpening(analysisData.map((a) => a.fen));
+
+    const result = outcome
+      ? describeOutcome(outcome)
+      : resultGame.isCheckmate()
       ? `Checkmate - ${resultGame.turn() === 'w' ? 'Black' : 'White'} wins`
       : resultGame.isDraw() 
       ? 'Draw'
@@ -140,46 +258,105 @@ export function GameAnalysisPanel({ moves, onClose }: GameAnalysisPanelProps) {
     const prompt = `Analyze this chess game summary:
     
 Result: ${result}
+Opening: ${opening ? formatOpening(opening) : 'Unknown'}
 Total Moves: ${analysisData.length}
 Inaccuracies: ${inaccuracies}
 Mistakes: ${mistakes}
+Missed wins: ${misses}
 Blunders: ${blunders}
-
+${hintsUsed ? `Tutor hints used: ${describeHints(hintsUsed)}\n` : ''}
 Key moments:
 ${analysisData
-  .filter(a => ['mistake', 'blunder', 'brilliant'].includes(a.classification))
+  .filter(a => ['mistake', 'miss', 'blunder', 'brilliant'].includes(a.classification))
   .slice(0, 5)
-  .map(a => `Move ${a.moveNumber}: ${a.move} (${a.classification})${a.comment ? ' - ' + a.comment : ''}`)
+  .map(a => `Move ${a.moveNumber}: ${a.move} (${a.classification})${a.comment ? ' - ' + a.comment : ''}${
+    a.bestMove && a.classification !== 'brilliant' ? ` - best was ${a.bestMove}` : ''
+  }`)
   .join('\n')}
 
 Provide a brief 3-4 sentence summary of the player's performance and 2-3 key areas to improve. Be encouraging but honest.`;
 
+    setSummaryError(null);
     try {
       const response = await fetch('/api/chess-tutor', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          messages: [
-            { role: 'system', content: 'You are a supportive chess coach providing constructive game analysis to beginners.' },
-            { role: 'user', content: prompt }
-          ]
+          messages: [{ role: 'user', content: prompt }]
         })
       });
       
-      const data = await response.json();
+      const data: { message?: string; error?: string } = await response.json().catch(() => ({}));
+      if (!response.ok || typeof data.message !== 'string') {
+        throw new Error(data.error ?? `Tutor request failed with status ${response.status}`);
+      }
       setGameSummary(data.message);
+      onSummaryComplete?.(data.message);
     } catch (error) {
       console.error('Error getting game summary:', error);
+      setSummaryError(error instanceof Error ? error.message : String(error));
     }
   };
 
+  /**
+   * FEN before each move, used to number the imported variations.
+   */
+  const getFensBefore = (): string[] => {
+    const replay = new Chess(startFen);
+    return moves.map((san) => {
+      const fenBefore = replay.fen();
+      replay.move(san);
+      return fenBefore;
+    });
+  };
+
+  /**
+   * Imported comment and alternative lines for the move at `index`.
+   */
+  const renderAnnotations = (index: number) => {
+    const annotation = annotations?.[index];
+    if (!annotation || (!annotation.comment && annotation.variations.length === 0)) return null;
+    return (
+      <div style={styles.annotation}>
+        {annotation.comment && <div>{annotation.comment}</div>}
+        {annotation.variations.map((variation, variationIndex) => (
+          <div key={variationIndex} style={styles.variation}>
+            ({formatLine(variation, fensBefore[index])})
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  /**
+   * What the engine would have played instead, for moves that lost something.
+   */
+  const renderBestLine = (moveAnalysis: GameAnalysis, index: number) => {
+    const lostSomething = ['inaccuracy', 'mistake', 'miss', 'blunder'].includes(moveAnalysis.classification);
+    if (!lostSomething || !moveAnalysis.bestLine?.length) return null;
+    const fenBefore = index === 0 ? startFen : analysis[index - 1].fen;
+    const line = moveAnalysis.bestLine.slice(0, 6).map((san) => ({ san, nags: [], variations: [] }));
+    return (
+      <div style={styles.annotation}>
+        {moveAnalysis.comment && <div>{moveAnalysis.comment}</div>}
+        <div>
+          Best was <strong>{moveAnalysis.bestMove}</strong>:{' '}
+          <span style={styles.variation}>{formatLine(line, fenBefore)}</span>
+        </div>
+      </div>
+    );
+  };
+
   const getMoveColor = (classification: GameAnalysis['classification']) => {
     const colors = {
       brilliant: '#1abc9c',
-      great: '#2ecc71',
+      great: '#2980b9',
+      best: '#2ecc71',
+      excellent: '#7bc96f',
       good: '#95a5a6',
       inaccuracy: '#f39c12',
       mistake: '#e67e22',
+      miss: '#9b59b6',
       blunder: '#e74c3c',
       book: '#3498db',
     };
@@ -190,15 +367,21 @@ Provide a brief 3-4 sentence summary of the player's performance and 2-3 key are
     const icons = {
       brilliant: '!!',
       great: '!',
+      best: '★',
+      excellent: '',
       good: '',
       inaccuracy: '?!',
       mistake: '?',
+      miss: '✗',
       blunder: '??',
       book: '📖',
     };
     return icons[classification];
   };
 
+  const fensBefore = annotations ? getFensBefore() : [];
+  const accuracy = computeAccuracy(analysis, analysis[0]?.evaluationBefore);
+
   return (
     <div style={styles.container}>
       <div style={styles.header}>
@@ -215,9 +398,49 @@ Provide a brief 3-4 sentence summary of the player's performance and 2-3 key are
           <p style={styles.description}>
             Analyze your completed game to see which moves were brilliant, good, or could be improved.
           </p>
+          <div style={styles.engineSettings}>
+            <label htmlFor="analysis-mode" style={styles.engineLabel}>Engine search:</label>
+            <select
+              id="analysis-mode"
+              value={searchLimit.mode}
+              onChange={(e) => {
+                const mode = e.target.value as EngineSearchLimit['mode'];
+                setSearchLimit({ mode, value: mode === 'depth' ? 14 : 500 });
+              }}
+              style={styles.engineInput}
+            >
+              <option value="depth">Depth (plies)</option>
+              <option value="movetime">Time per move (ms)</option>
+            </select>
+            <input
+              type="number"
+              min={1}
+              max={searchLimit.mode === 'depth' ? 30 : 10000}
+              value={searchLimit.value}
+              onChange={(e) => setSearchLimit({ ...searchLimit, value: Math.max(1, Number(e.target.value)) })}
+              style={styles.engineInput}
+            />
+          </div>
+          {analysisError && (
+            <p style={styles.errorNote}>The analysis stopped before the end of the game: {analysisError}</p>
+          )}
           <button onClick={analyzeGame} style={styles.analyzeButton}>
-            Start Analysis
+            {analysisError ? 'Retry Analysis' : 'Start Analysis'}
           </button>
+          {annotations && annotations.length > 0 && (
+            <div style={{ ...styles.moveList, marginTop: '25px', textAlign: 'left' }}>
+              <h4 style={styles.moveListTitle}>Imported Game</h4>
+              {moves.map((san, index) => (
+                <div key={index} style={{ ...styles.moveItem, flexWrap: 'wrap' }}>
+                  <span style={styles.moveNumber}>
+                    {fensBefore[index].split(' ')[5]}{fensBefore[index].split(' ')[1] === 'b' ? '...' : '.'}
+                  </span>
+                  <span style={styles.moveSan}>{san}</span>
+                  {renderAnnotations(index)}
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       )}
       
@@ -225,11 +448,15 @@ Provide a brief 3-4 sentence summary of the player's performance and 2-3 key are
         <div style={styles.loading}>
             <div style={styles.loadingSpinner}></div>
             <p>Analyzing game... This may take a minute.</p>
-            <p style={styles.loadingSubtext}>Analyzing {analysis.length} / {moves.length} moves</p>        </div>
+            <p style={styles.loadingSubtext}>Analyzing {analyzedCount} / {moves.length} moves</p>
+        </div>
       )}
       
       {analysis.length > 0 && !isAnalyzing && (
         <div style={styles.analysisContainer}>
+          {summaryError && (
+            <p style={styles.errorNote}>The coach's summary could not be written: {summaryError}</p>
+          )}
           {gameSummary && (
             <div style={styles.summary}>
               <h4>🎓 Coach's Summary</h4>
@@ -237,12 +464,25 @@ Provide a brief 3-4 sentence summary of the player's performance and 2-3 key are
             </div>
           )}
           
+          <div style={{ ...styles.stats, gridTemplateColumns: 'repeat(2, 1fr)' }}>
+            {(['white', 'black'] as const).map((side) => (
+              <div key={side} style={styles.statItem}>
+                <div style={styles.statNumber}>
+                  {accuracy[side] === null ? '—' : `${accuracy[side]}%`}
+                </div>
+                <div style={styles.statLabel}>{side === 'white' ? 'White' : 'Black'} accuracy</div>
+              </div>
+            ))}
+          </div>
+
+          <EvalGraph analysis={analysis} currentPly={currentPly} onSelect={onPositionSelect} />
+
           <div style={styles.stats}>
             <div style={styles.statItem}>
               <span style={styles.statIcon}>✨</span>
               <div>
                 <div style={styles.statNumber}>
-                  {analysis.filter(a => ['brilliant', 'great'].includes(a.classification)).length}
+                  {analysis.filter(a => ['brilliant', 'great', 'best'].includes(a.classification)).length}
                 </div>
                 <div style={styles.statLabel}>Great Moves</div>
               </div>
@@ -260,13 +500,23 @@ Provide a brief 3-4 sentence summary of the player's performance and 2-3 key are
               <span style={styles.statIcon}>❌</span>
               <div>
                 <div style={styles.statNumber}>
-                  {analysis.filter(a => ['mistake', 'blunder'].includes(a.classification)).length}
+                  {analysis.filter(a => ['mistake', 'miss', 'blunder'].includes(a.classification)).length}
                 </div>
                 <div style={styles.statLabel}>Mistakes</div>
               </div>
             </div>
           </div>
           
+          {hintsUsed && (
+            <p style={styles.hintNote}>💡 Tutor hints used: {describeHints(hintsUsed)}</p>
+          )}
+
+          {puzzlesAdded !== null && puzzlesAdded > 0 && (
+            <p style={styles.puzzleNote}>
+              🧩 {puzzlesAdded} {puzzlesAdded === 1 ? 'position was' : 'positions were'} added to your puzzle trainer.
+            </p>
+          )}
+
           <h4 style={styles.moveListTitle}>Move by Move</h4>
           <div style={styles.moveList}>
             {analysis.map((moveAnalysis, index) => (
@@ -274,8 +524,12 @@ Provide a brief 3-4 sentence summary of the player's performance and 2-3 key are
                 key={index}
                 style={{
                   ...styles.moveItem,
+                  flexWrap: 'wrap',
                   borderLeft: `4px solid ${getMoveColor(moveAnalysis.classification)}`,
+                  ...(onPositionSelect ? { cursor: 'pointer' } : {}),
+                  ...(currentPly === index + 1 ? styles.currentMove : {}),
                 }}
+                onClick={() => onPositionSelect?.(index + 1)}
               >
                 <span style={styles.moveNumber}>
                   {moveAnalysis.moveNumber}.
@@ -294,6 +548,8 @@ Provide a brief 3-4 sentence summary of the player's performance and 2-3 key are
                 >
                   {moveAnalysis.classification}
                 </span>
+                {renderBestLine(moveAnalysis, index)}
+                {renderAnnotations(index)}
               </div>
             ))}
           </div>
@@ -333,6 +589,23 @@ const styles: { [key: string]: React.CSSProperties } = {
     marginBottom: '20px',
     lineHeight: '1.6',
   },
+  engineSettings: {
+    display: 'flex',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: '10px',
+    marginBottom: '20px',
+  },
+  engineLabel: {
+    color: '#2c3e50',
+    fontWeight: '500',
+  },
+  engineInput: {
+    padding: '6px 10px',
+    borderRadius: '4px',
+    border: '1px solid #ccc',
+    maxWidth: '160px',
+  },
   analyzeButton: {
     padding: '12px 24px',
     backgroundColor: '#3498db',
@@ -375,6 +648,14 @@ const styles: { [key: string]: React.CSSProperties } = {
     lineHeight: '1.6',
     color: '#2c3e50',
   },
+  errorNote: {
+    padding: '10px 15px',
+    backgroundColor: '#fdecea',
+    borderRadius: '8px',
+    borderLeft: '4px solid #e74c3c',
+    color: '#c0392b',
+    marginBottom: '20px',
+  },
   stats: {
     display: 'grid',
     gridTemplateColumns: 'repeat(3, 1fr)',
@@ -404,6 +685,22 @@ const styles: { [key: string]: React.CSSProperties } = {
     color: '#7f8c8d',
     marginTop: '5px',
   },
+  puzzleNote: {
+    padding: '10px 15px',
+    backgroundColor: 'white',
+    borderRadius: '8px',
+    borderLeft: '4px solid #e67e22',
+    color: '#2c3e50',
+    marginBottom: '20px',
+  },
+  hintNote: {
+    padding: '10px 15px',
+    backgroundColor: 'white',
+    borderRadius: '8px',
+    borderLeft: '4px solid #27ae60',
+    color: '#2c3e50',
+    marginBottom: '20px',
+  },
   moveListTitle: {
     marginBottom: '15px',
     color: '#2c3e50',
@@ -421,6 +718,9 @@ const styles: { [key: string]: React.CSSProperties } = {
     borderRadius: '6px',
     alignItems: 'center',
   },
+  currentMove: {
+    backgroundColor: '#eaf2fb',
+  },
   moveNumber: {
     fontWeight: 'bold',
     minWidth: '35px',
@@ -436,6 +736,17 @@ const styles: { [key: string]: React.CSSProperties } = {
     marginLeft: '8px',
     color: '#e74c3c',
   },
+  annotation: {
+    flexBasis: '100%',
+    paddingLeft: '47px',
+    fontSize: '0.9rem',
+    color: '#7f8c8d',
+    lineHeight: '1.5',
+  },
+  variation: {
+    fontFamily: 'monospace',
+    color: '#2980b9',
+  },
   classification: {
     fontSize: '0.85rem',
     textTransform: 'capitalize',
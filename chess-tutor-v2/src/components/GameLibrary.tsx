@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { deleteGame, listGames } from '../storage/gameStore';
+import { TERMINATION_LABELS } from '../chess/outcome';
+import type { SavedGame } from '../types/savedGame';
+
+interface GameLibraryProps {
+  currentGameId: string;
+  refreshKey?: number;                 // Change to reload the list
+  onOpen: (game: SavedGame) => void;
+}
+
+/**
+ * Lists the games saved in this browser. Any game can be reopened on the
+ * board, with its analysis if it was analyzed.
+ */
+export function GameLibrary({ currentGameId, refreshKey, onOpen }: GameLibraryProps) {
+  const [games, setGames] = useState<SavedGame[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listGames()
+      .then((saved) => {
+        if (!cancelled) setGames(saved);
+      })
+      .catch((err) => {
+        console.error('Could not load saved games:', err);
+        if (!cancelled) setError('Saved games are not available in this browser.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const handleDelete = async (id: string) => {
+    await deleteGame(id);
+    setGames((prev) => prev.filter((game) => game.id !== id));
+  };
+
+  /**
+   * The result from the human's side of the board. Hotseat and AI-vs-AI
+   * games have no single human side, so they show the plain result.
+   */
+  const describeResult = (game: SavedGame) => {
+    if (game.result === '*') return 'In progress';
+    const reason = game.outcome ? `, ${TERMINATION_LABELS[game.outcome.reason]}` : '';
+    if (game.result === '1/2-1/2') return `Draw${reason}`;
+    const mode = game.session?.gameMode ?? 'human-vs-ai';
+    if (mode !== 'human-vs-ai') return `${game.result === '1-0' ? 'White' : 'Black'} won (${game.result})${reason}`;
+    const humanColor = game.session?.playerColor ?? (game.black === 'You' ? 'b' : 'w');
+    const won = (game.result === '1-0') === (humanColor === 'w');
+    return `${won ? 'Won' : 'Lost'} (${game.result})${reason}`;
+  };
+
+  const describeAccuracy = (game: SavedGame) => {
+    if (!game.accuracy) return '—';
+    const format = (value: number | null) => (value === null ? '—' : `${value}%`);
+    return `W ${format(game.accuracy.white)} · B ${format(game.accuracy.black)}`;
+  };
+
+  return (
+    <div style={styles.container}>
+      <h3 style={styles.title}>📚 Game Library</h3>
+      {error && <p style={styles.empty}>{error}</p>}
+      {!error && games.length === 0 && <p style={styles.empty}>No saved games yet.</p>}
+      {games.length > 0 && (
+        <table style={styles.table}>
+          <thead>
+            <tr>
+              <th style={styles.cell}>Date</th>
+              <th style={styles.cell}>Opponent</th>
+              <th style={styles.cell}>Result</th>
+              <th style={styles.cell}>Accuracy</th>
+              <th style={styles.cell}>Moves</th>
+              <th style={styles.cell}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {games.map((game) => (
+              <tr key={game.id} style={game.id === currentGameId ? styles.currentRow : undefined}>
+                <td style={styles.cell}>{new Date(game.createdAt).toLocaleString()}</td>
+                <td style={styles.cell}>{game.opponent}</td>
+                <td style={styles.cell}>{describeResult(game)}</td>
+                <td style={styles.cell}>{describeAccuracy(game)}</td>
+                <td style={styles.cell}>{Math.ceil(game.moves.length / 2)}</td>
+                <td style={{ ...styles.cell, whiteSpace: 'nowrap' }}>
+                  {game.id === currentGameId ? (
+                    <span style={styles.currentLabel}>Open</span>
+                  ) : (
+                    <>
+                      <button style={styles.button} onClick={() => onOpen(game)}>Open</button>
+                      <button style={styles.deleteButton} onClick={() => handleDelete(game.id)}>Delete</button>
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    padding: '20px',
+    backgroundColor: '#f8f9fa',
+    borderRadius: '12px',
+    maxWidth: '900px',
+    boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+    color: '#2c3e50',
+  },
+  title: {
+    marginTop: 0,
+  },
+  empty: {
+    color: '#7f8c8d',
+    marginBottom: 0,
+  },
+  table: {
+    width: '100%',
+    borderCollapse: 'collapse',
+    fontSize: '0.9rem',
+  },
+  cell: {
+    padding: '8px',
+    textAlign: 'left',
+    borderBottom: '1px solid #e0e0e0',
+  },
+  currentRow: {
+    backgroundColor: '#f3e9df',
+  },
+  currentLabel: {
+    color: '#7f8c8d',
+    fontStyle: 'italic',
+  },
+  button: {
+    padding: '6px 12px',
+    marginRight: '6px',
+    backgroundColor: '#b58863',
+    color: 'white',
+    border: 'none',
+    borderRadius: '6px',
+    cursor: 'pointer',
+  },
+  deleteButton: {
+    padding: '6px 12px',
+    backgroundColor: 'transparent',
+    color: '#e74c3c',
+    border: '1px solid #e74c3c',
+    borderRadius: '6px',
+    cursor: 'pointer',
+  },
+};
+
+export default GameLibrary;
@@ -0,0 +1,111 @@
+import React from 'react';
+import type { MoveNode, MoveTree } from '../chess/moveTree';
+
+interface MoveListProps {
+  tree: MoveTree;
+  currentId: number;
+  onSelect: (id: number) => void; // Jumps the board to the position after that move
+}
+
+/**
+ * The moves of the game in PGN order, with side variations in brackets.
+ * Clicking a move shows the position after it.
+ */
+export function MoveList({ tree, currentId, onSelect }: MoveListProps) {
+  const root = tree.nodes[0];
+
+  const renderMove = (node: MoveNode, showNumber: boolean) => {
+    const number = node.color === 'w' ? `${node.moveNumber}. ` : showNumber ? `${node.moveNumber}... ` : '';
+    return (
+      <button
+        key={node.id}
+        onClick={() => onSelect(node.id)}
+        style={node.id === currentId ? { ...styles.move, ...styles.currentMove } : styles.move}
+      >
+        {number}{node.san}
+      </button>
+    );
+  };
+
+  /**
+   * Renders a line starting at a node, following the first child and
+   * opening a bracketed variation for each alternative along the way.
+   */
+  const renderLine = (startId: number): React.ReactNode[] => {
+    const elements: React.ReactNode[] = [];
+    let node = tree.nodes[startId];
+    let showNumber = true;
+
+    while (true) {
+      elements.push(renderMove(node, showNumber));
+      showNumber = false;
+
+      const parent = tree.nodes[node.parent!];
+      if (parent.children[0] === node.id && parent.children.length > 1) {
+        parent.children.slice(1).forEach((variationId) => {
+          elements.push(
+            <span key={`variation-${variationId}`} style={styles.variation}>
+              ({renderLine(variationId)})
+            </span>
+          );
+        });
+        showNumber = true;
+      }
+
+      if (node.children.length === 0) break;
+      node = tree.nodes[node.children[0]];
+    }
+    return elements;
+  };
+
+  return (
+    <div style={styles.container}>
+      {root.children.length === 0 ? (
+        <span style={styles.empty}>No moves yet.</span>
+      ) : (
+        renderLine(root.children[0])
+      )}
+    </div>
+  );
+}
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'baseline',
+    gap: '2px 4px',
+    maxHeight: '180px',
+    overflowY: 'auto',
+    padding: '8px',
+    backgroundColor: '#3b2c20',
+    borderRadius: '4px',
+    fontSize: '0.95rem',
+  },
+  move: {
+    padding: '2px 4px',
+    border: 'none',
+    borderRadius: '3px',
+    background: 'none',
+    color: 'inherit',
+    font: 'inherit',
+    cursor: 'pointer',
+  },
+  currentMove: {
+    backgroundColor: '#b58863',
+    fontWeight: 'bold',
+  },
+  variation: {
+    display: 'inline-flex',
+    flexWrap: 'wrap',
+    alignItems: 'baseline',
+    color: '#c8b8a6',
+    fontSize: '0.85rem',
+  },
+  empty: {
+    color: '#c8b8a6',
+    fontStyle: 'italic',
+  },
+};
+
+export default MoveList;
@@ -0,0 +1,150 @@
+import React, { useRef, useState } from 'react';
+import { parsePgn, PgnParseError, type PgnGame } from '../chess/pgn';
+
+interface PgnPanelProps {
+  getPgn: () => string;              // PGN of the game currently on the board
+  onImport: (game: PgnGame) => void;
+}
+
+/**
+ * Export the current game as PGN, or import one (pasted or from a file)
+ * to review it on the board and in the analysis panel.
+ */
+export function PgnPanel({ getPgn, onImport }: PgnPanelProps) {
+  const [pgnText, setPgnText] = useState('');
+  const [status, setStatus] = useState<{ type: 'error' | 'info'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = () => {
+    setPgnText(getPgn());
+    setStatus({ type: 'info', text: 'Current game exported below.' });
+  };
+
+  const handleCopy = async () => {
+    const pgn = pgnText || getPgn();
+    try {
+      await navigator.clipboard.writeText(pgn);
+      setStatus({ type: 'info', text: 'PGN copied to clipboard.' });
+    } catch {
+      setStatus({ type: 'error', text: 'Could not access the clipboard.' });
+    }
+  };
+
+  const handleDownload = () => {
+    const pgn = pgnText || getPgn();
+    const url = URL.createObjectURL(new Blob([pgn], { type: 'application/x-chess-pgn' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `chess-tutor-${new Date().toISOString().slice(0, 10)}.pgn`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importText = (text: string) => {
+    try {
+      const game = parsePgn(text);
+      onImport(game);
+      setStatus({ type: 'info', text: `Imported ${game.moves.length} moves.` });
+    } catch (error) {
+      const message = error instanceof PgnParseError ? error.message : 'Could not read that PGN.';
+      setStatus({ type: 'error', text: message });
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    setPgnText(text);
+    importText(text);
+    e.target.value = '';
+  };
+
+  return (
+    <div style={styles.container}>
+      <h3 style={styles.title}>PGN</h3>
+      <textarea
+        value={pgnText}
+        onChange={(e) => setPgnText(e.target.value)}
+        placeholder="Paste a PGN here to import it, or export the current game."
+        style={styles.textarea}
+        spellCheck={false}
+      />
+      <div style={styles.buttonRow}>
+        <button style={styles.button} onClick={handleExport}>Export</button>
+        <button style={styles.button} onClick={handleCopy}>Copy</button>
+        <button style={styles.button} onClick={handleDownload}>Download</button>
+        <button
+          style={styles.button}
+          onClick={() => importText(pgnText)}
+          disabled={!pgnText.trim()}
+        >
+          Import
+        </button>
+        <button style={styles.button} onClick={() => fileInputRef.current?.click()}>
+          Open File…
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".pgn,text/plain"
+          onChange={handleFileChange}
+          style={{ display: 'none' }}
+        />
+      </div>
+      {status && (
+        <p style={{ ...styles.status, color: status.type === 'error' ? '#e74c3c' : '#7f8c8d' }}>
+          {status.text}
+        </p>
+      )}
+    </div>
+  );
+}
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    padding: '20px',
+    backgroundColor: '#f8f9fa',
+    borderRadius: '12px',
+    maxWidth: '600px',
+    boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+    color: '#2c3e50',
+  },
+  title: {
+    marginTop: 0,
+  },
+  textarea: {
+    width: '100%',
+    minHeight: '140px',
+    boxSizing: 'border-box',
+    padding: '10px',
+    fontFamily: 'monospace',
+    fontSize: '0.9rem',
+    borderRadius: '6px',
+    border: '1px solid #ddd',
+    backgroundColor: 'white',
+    color: '#2c3e50',
+    resize: 'vertical',
+  },
+  buttonRow: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '8px',
+    marginTop: '10px',
+  },
+  button: {
+    padding: '8px 14px',
+    backgroundColor: '#b58863',
+    color: 'white',
+    border: 'none',
+    borderRadius: '6px',
+    cursor: 'pointer',
+    fontWeight: '500',
+  },
+  status: {
+    marginBottom: 0,
+    fontSize: '0.9rem',
+  },
+};
+
+export default PgnPanel;
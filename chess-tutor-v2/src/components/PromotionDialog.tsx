@@ -0,0 +1,84 @@
+import React from 'react';
+
+type PromotionPiece = 'q' | 'r' | 'b' | 'n';
+
+interface PromotionDialogProps {
+  color: 'w' | 'b';
+  onSelect: (piece: PromotionPiece) => void;
+  onCancel: () => void;
+}
+
+const PIECES: { piece: PromotionPiece; name: string; w: string; b: string }[] = [
+  { piece: 'q', name: 'Queen', w: '♕', b: '♛' },
+  { piece: 'r', name: 'Rook', w: '♖', b: '♜' },
+  { piece: 'b', name: 'Bishop', w: '♗', b: '♝' },
+  { piece: 'n', name: 'Knight', w: '♘', b: '♞' },
+];
+
+/**
+ * Overlay that asks which piece a pawn reaching the last rank becomes.
+ * Rendered on top of the board; clicking the backdrop cancels the move.
+ */
+export function PromotionDialog({ color, onSelect, onCancel }: PromotionDialogProps) {
+  return (
+    <div style={styles.backdrop} onClick={onCancel}>
+      <div style={styles.dialog} onClick={(e) => e.stopPropagation()}>
+        <h4 style={styles.title}>Promote to:</h4>
+        <div style={styles.choices}>
+          {PIECES.map(({ piece, name, w, b }) => (
+            <button
+              key={piece}
+              style={styles.choice}
+              title={name}
+              onClick={() => onSelect(piece)}
+            >
+              {color === 'w' ? w : b}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const styles: { [key: string]: React.CSSProperties } = {
+  backdrop: {
+    position: 'absolute',
+    inset: 0,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.45)',
+    borderRadius: '12px',
+    zIndex: 10,
+  },
+  dialog: {
+    padding: '16px 20px',
+    backgroundColor: '#f8f9fa',
+    borderRadius: '8px',
+    boxShadow: '0 4px 12px rgba(0, 0, 0, 0.3)',
+  },
+  title: {
+    margin: '0 0 12px',
+    color: '#2c3e50',
+    textAlign: 'center',
+  },
+  choices: {
+    display: 'flex',
+    gap: '10px',
+  },
+  choice: {
+    width: '64px',
+    height: '64px',
+    fontSize: '2.75rem',
+    lineHeight: 1,
+    padding: 0,
+    color: '#2c3e50',
+    backgroundColor: '#f0d9b5',
+    border: '2px solid #b58863',
+    borderRadius: '6px',
+    cursor: 'pointer',
+  },
+};
+
+export default PromotionDialog;
@@ -0,0 +1,297 @@
+import React, { useEffect, useState } from 'react';
+import { Chessboard } from 'react-chessboard';
+import { Chess, type Square } from 'chess.js';
+import { getDuePuzzles, getSolveRate, recordAttempt } from '../chess/puzzles';
+import { pvToSan } from '../engine/stockfishEngine';
+import { deletePuzzle, listPuzzles, savePuzzle } from '../storage/puzzleStore';
+import type { Puzzle } from '../types/puzzle';
+
+interface PuzzleTrainerProps {
+  refreshKey?: number;                 // Change to reload the puzzles
+}
+
+type PuzzleStatus = 'solving' | 'solved' | 'failed';
+
+/**
+ * Replays the player's mistakes as puzzles, one at a time. The player has
+ * to find the engine's line; the opponent's replies are played for them.
+ * Failed puzzles come back soon, solved ones less and less often.
+ */
+export function PuzzleTrainer({ refreshKey }: PuzzleTrainerProps) {
+  const [puzzles, setPuzzles] = useState<Puzzle[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // The puzzle on the board and how far into its solution the player is
+  const [puzzle, setPuzzle] = useState<Puzzle | null>(null);
+  const [position, setPosition] = useState(() => new Chess());
+  const [step, setStep] = useState(0);
+  const [status, setStatus] = useState<PuzzleStatus>('solving');
+
+  useEffect(() => {
+    let cancelled = false;
+    listPuzzles()
+      .then((stored) => {
+        if (!cancelled) setPuzzles(stored);
+      })
+      .catch((err) => {
+        console.error('Could not load puzzles:', err);
+        if (!cancelled) setError('Puzzles are not available in this browser.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  /**
+   * Plays the opponent's reply from the solution after a short pause.
+   */
+  useEffect(() => {
+    if (!puzzle || status !== 'solving' || step % 2 === 0) return;
+    const timer = setTimeout(() => {
+      const next = new Chess(position.fen());
+      next.move(toMove(puzzle.solution[step]));
+      setPosition(next);
+      setStep(step + 1);
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [puzzle, status, step, position]);
+
+  const showPuzzle = (next: Puzzle | null) => {
+    setPuzzle(next);
+    setPosition(new Chess(next?.fen));
+    setStep(0);
+    setStatus('solving');
+  };
+
+  /**
+   * Saves the result of this attempt and reschedules the puzzle.
+   */
+  const finishAttempt = async (solved: boolean) => {
+    if (!puzzle) return;
+    setStatus(solved ? 'solved' : 'failed');
+    const updated = recordAttempt(puzzle, solved);
+    setPuzzles((prev) => prev.map((p) => (p.id === updated.id ? updated : p)));
+    try {
+      await savePuzzle(updated);
+    } catch (err) {
+      console.error('Could not save puzzle result:', err);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!puzzle) return;
+    await deletePuzzle(puzzle.id);
+    setPuzzles((prev) => prev.filter((p) => p.id !== puzzle.id));
+    showPuzzle(null);
+  };
+
+  function onPieceDrop(sourceSquare: string, targetSquare: string): boolean {
+    if (!puzzle || status !== 'solving' || step % 2 === 1) return false;
+
+    const expected = puzzle.solution[step];
+    const isPromotion = position
+      .moves({ square: sourceSquare as Square, verbose: true })
+      .some((m) => m.to === targetSquare && m.promotion);
+    // Promote to the piece the solution uses when it is this move, otherwise a queen
+    const promotion = isPromotion
+      ? expected.startsWith(sourceSquare + targetSquare) ? expected[4] ?? 'q' : 'q'
+      : undefined;
+
+    const next = new Chess(position.fen());
+    let played;
+    try {
+      played = next.move({ from: sourceSquare, to: targetSquare, promotion });
+    } catch {
+      return false; // Illegal moves just snap back
+    }
+
+    // Any mate is as good as the engine's mate
+    const correct = played.lan === expected || (next.isCheckmate() && solutionMates(position.fen(), expected));
+    setPosition(next);
+    if (!correct) {
+      finishAttempt(false);
+    } else if (step + 1 >= puzzle.solution.length) {
+      setStep(step + 1);
+      finishAttempt(true);
+    } else {
+      setStep(step + 1);
+    }
+    return true;
+  }
+
+  const due = getDuePuzzles(puzzles);
+  const solveRate = getSolveRate(puzzles);
+  const solverColor = puzzle ? new Chess(puzzle.fen).turn() : 'w';
+
+  /**
+   * The solution in SAN with move numbers, e.g. "23. Nxe5 dxe5 24. Qh5".
+   */
+  const describeSolution = (solved: Puzzle) => {
+    const [, turn, , , , fullMove] = solved.fen.split(' ');
+    let moveNumber = Number(fullMove);
+    return pvToSan(solved.fen, solved.solution)
+      .map((san, index) => {
+        const white = (index % 2 === 0) === (turn === 'w');
+        if (white) return `${moveNumber}. ${san}`;
+        const text = index === 0 ? `${moveNumber}... ${san}` : san;
+        moveNumber++;
+        return text;
+      })
+      .join(' ');
+  };
+
+  return (
+    <div style={styles.container}>
+      <h3 style={styles.title}>🧩 Puzzle Trainer</h3>
+      {error && <p style={styles.empty}>{error}</p>}
+
+      <div style={styles.stats}>
+        <span>Puzzles: <strong>{puzzles.length}</strong></span>
+        <span>Due now: <strong>{due.length}</strong></span>
+        <span>Solve rate: <strong>{solveRate === null ? '—' : `${solveRate}%`}</strong></span>
+      </div>
+
+      {!puzzle && (
+        <>
+          {!error && puzzles.length === 0 && (
+            <p style={styles.empty}>
+              Analyze a finished game and your mistakes and blunders will be saved here as puzzles.
+            </p>
+          )}
+          {puzzles.length > 0 && due.length === 0 && (
+            <p style={styles.empty}>
+              No puzzles are due. The next one is due{' '}
+              {new Date(Math.min(...puzzles.map((p) => p.dueAt))).toLocaleString()}.
+            </p>
+          )}
+          {due.length > 0 && (
+            <button style={styles.button} onClick={() => showPuzzle(due[0])}>
+              Start training
+            </button>
+          )}
+        </>
+      )}
+
+      {puzzle && (
+        <div style={styles.puzzle}>
+          <p style={styles.prompt}>
+            {status === 'solving' &&
+              `${solverColor === 'w' ? 'White' : 'Black'} to move. In your game you played ${puzzle.playedMove}, a ${puzzle.classification}. Find the better line.`}
+            {status === 'solved' && '✅ Solved! This puzzle will come back later to keep it fresh.'}
+            {status === 'failed' && `❌ Not quite. The engine's line was ${describeSolution(puzzle)}.`}
+          </p>
+          <div style={styles.board}>
+            <Chessboard
+              options={{
+                id: 'PuzzleTrainerBoard',
+                position: position.fen(),
+                onPieceDrop: ({ sourceSquare, targetSquare }) => {
+                  if (!sourceSquare || !targetSquare) return false;
+                  return onPieceDrop(sourceSquare, targetSquare);
+                },
+                boardOrientation: solverColor === 'w' ? 'white' : 'black',
+              }}
+            />
+          </div>
+          <div style={styles.actions}>
+            {status === 'solving' && (
+              <button style={styles.secondaryButton} onClick={() => finishAttempt(false)}>
+                Show solution
+              </button>
+            )}
+            {status !== 'solving' && (
+              <button style={styles.button} onClick={() => showPuzzle(due.find((p) => p.id !== puzzle.id) ?? null)}>
+                {due.some((p) => p.id !== puzzle.id) ? 'Next puzzle' : 'Done'}
+              </button>
+            )}
+            <button style={styles.deleteButton} onClick={handleRemove}>
+              Remove puzzle
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * A UCI move ("e7e8q") in the form chess.js accepts.
+ */
+function toMove(uci: string) {
+  return { from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] };
+}
+
+/**
+ * Whether the UCI move gives checkmate in the position.
+ */
+function solutionMates(fen: string, uci: string): boolean {
+  const chess = new Chess(fen);
+  chess.move(toMove(uci));
+  return chess.isCheckmate();
+}
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    padding: '20px',
+    backgroundColor: '#f8f9fa',
+    borderRadius: '12px',
+    maxWidth: '600px',
+    boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+    color: '#2c3e50',
+  },
+  title: {
+    marginTop: 0,
+  },
+  stats: {
+    display: 'flex',
+    gap: '20px',
+    marginBottom: '15px',
+    fontSize: '0.95rem',
+  },
+  empty: {
+    color: '#7f8c8d',
+    marginBottom: 0,
+  },
+  puzzle: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+  },
+  prompt: {
+    margin: 0,
+    lineHeight: '1.5',
+  },
+  board: {
+    width: '400px',
+  },
+  actions: {
+    display: 'flex',
+    gap: '10px',
+  },
+  button: {
+    padding: '8px 16px',
+    backgroundColor: '#b58863',
+    color: 'white',
+    border: 'none',
+    borderRadius: '6px',
+    cursor: 'pointer',
+  },
+  secondaryButton: {
+    padding: '8px 16px',
+    backgroundColor: 'transparent',
+    color: '#b58863',
+    border: '1px solid #b58863',
+    borderRadius: '6px',
+    cursor: 'pointer',
+  },
+  deleteButton: {
+    padding: '8px 16px',
+    backgroundColor: 'transparent',
+    color: '#e74c3c',
+    border: '1px solid #e74c3c',
+    borderRadius: '6px',
+    cursor: 'pointer',
+  },
+};
+
+export default PuzzleTrainer;
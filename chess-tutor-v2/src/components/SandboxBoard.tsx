@@ -0,0 +1,302 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Chessboard } from 'react-chessboard';
+import { Chess, type Square } from 'chess.js';
+import { EngineCancelledError, getSharedEngine } from '../engine/stockfishEngine';
+import PromotionDialog from './PromotionDialog';
+
+interface SandboxBoardProps {
+  startFen: string;
+  line: string[];                                   // Suggested moves in UCI, from startFen
+  orientation?: 'white' | 'black';
+  previewMove?: { fen: string; uci: string } | null; // Move suggested by the tutor, drawn while its position is shown
+  threatMove?: { fen: string; uci: string } | null;  // The opponent's threat, drawn in red while its position is shown
+  hintFocus?: { fen: string; from: string; to?: string } | null; // Squares a tutor hint points at, highlighted while its position is shown
+  onPositionChange?: (fen: string) => void;         // So the tutor can discuss the sandbox position
+  onExit: () => void;
+}
+
+const ENGINE_REPLY_DEPTH = 12;
+const TUTOR_ARROW_COLOR = 'rgba(230, 126, 34, 0.9)';
+const THREAT_ARROW_COLOR = 'rgba(231, 76, 60, 0.9)';
+const HINT_PIECE_STYLE: React.CSSProperties = { boxShadow: 'inset 0 0 0 4px rgba(241, 196, 15, 0.9)' };
+const HINT_TARGET_STYLE: React.CSSProperties = { backgroundColor: 'rgba(241, 196, 15, 0.55)' };
+
+/**
+ * A board for trying out a suggested line without touching the game.
+ * The line can be stepped through move by move; playing a different move
+ * branches off it, and the engine answers if replies are switched on.
+ */
+export function SandboxBoard({
+  startFen,
+  line,
+  orientation = 'white',
+  previewMove,
+  threatMove,
+  hintFocus,
+  onPositionChange,
+  onExit,
+}: SandboxBoardProps) {
+  // The line being explored and how many of its moves are on the board
+  const [moves, setMoves] = useState(line);
+  const [shown, setShown] = useState(0);
+  const [engineReplies, setEngineReplies] = useState(true);
+  const [awaitingReply, setAwaitingReply] = useState(false);
+  // Pawn move to the last rank waiting for the player to pick a piece
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: string; to: string } | null>(null);
+
+  // Position after each move, and the moves in SAN; cut at the first illegal move
+  const { fens, sans } = useMemo(() => {
+    const chess = new Chess(startFen);
+    const fens = [startFen];
+    const sans: string[] = [];
+    for (const uci of moves) {
+      try {
+        sans.push(chess.move(toMove(uci)).san);
+      } catch {
+        break;
+      }
+      fens.push(chess.fen());
+    }
+    return { fens, sans };
+  }, [startFen, moves]);
+
+  const fen = fens[shown];
+  const arrows = [
+    previewMove && { ...previewMove, color: TUTOR_ARROW_COLOR },
+    threatMove && { ...threatMove, color: THREAT_ARROW_COLOR },
+  ].flatMap((arrow) =>
+    arrow && arrow.fen === fen
+      ? [{ startSquare: arrow.uci.slice(0, 2), endSquare: arrow.uci.slice(2, 4), color: arrow.color }]
+      : []
+  );
+  const squareStyles =
+    hintFocus && hintFocus.fen === fen
+      ? { [hintFocus.from]: HINT_PIECE_STYLE, ...(hintFocus.to ? { [hintFocus.to]: HINT_TARGET_STYLE } : {}) }
+      : {};
+
+  useEffect(() => {
+    onPositionChange?.(fen);
+  }, [fen, onPositionChange]);
+
+  /**
+   * The engine's answer to a move the player made here.
+   */
+  useEffect(() => {
+    if (!awaitingReply) return;
+    const controller = new AbortController();
+    getSharedEngine()
+      .analyze(fen, { depth: ENGINE_REPLY_DEPTH, signal: controller.signal })
+      .then(({ bestMove }) => {
+        setAwaitingReply(false);
+        if (!bestMove) return; // Mate or stalemate
+        setMoves((prev) => [...prev.slice(0, shown), bestMove]);
+        setShown(shown + 1);
+      })
+      .catch((error) => {
+        if (error instanceof EngineCancelledError) return;
+        console.error('Sandbox engine error:', error);
+        setAwaitingReply(false);
+      });
+    return () => controller.abort();
+  }, [awaitingReply, fen, shown]);
+
+  const showMove = (index: number) => {
+    setAwaitingReply(false);
+    setPendingPromotion(null);
+    setShown(Math.max(0, Math.min(index, sans.length)));
+  };
+
+  function onPieceDrop(sourceSquare: string, targetSquare: string): boolean {
+    if (awaitingReply || pendingPromotion) return false;
+    const isPromotion = new Chess(fen)
+      .moves({ square: sourceSquare as Square, verbose: true })
+      .some((m) => m.to === targetSquare && m.promotion);
+
+    if (isPromotion) {
+      setPendingPromotion({ from: sourceSquare, to: targetSquare });
+      return false; // The pawn snaps back until a piece is chosen
+    }
+    return playMove({ from: sourceSquare, to: targetSquare });
+  }
+
+  /**
+   * Plays a move in the position shown, following the line or branching off it.
+   */
+  function playMove(move: { from: string; to: string; promotion?: string }): boolean {
+    const chess = new Chess(fen);
+    let played;
+    try {
+      played = chess.move(move);
+    } catch {
+      return false; // Illegal moves just snap back
+    }
+
+    // Following the line just steps forward; anything else branches off it
+    if (moves[shown] !== played.lan) {
+      setMoves([...moves.slice(0, shown), played.lan]);
+      if (engineReplies && !chess.isGameOver()) setAwaitingReply(true);
+    }
+    setShown(shown + 1);
+    return true;
+  }
+
+  /**
+   * The moves with move numbers; clicking one shows the position after it.
+   */
+  const renderMoves = () => {
+    const [, turn, , , , fullMove] = startFen.split(' ');
+    let moveNumber = Number(fullMove);
+    return sans.map((san, index) => {
+      const white = (index % 2 === 0) === (turn === 'w');
+      const number = white ? `${moveNumber}. ` : index === 0 ? `${moveNumber}... ` : '';
+      if (!white) moveNumber++;
+      return (
+        <span key={index}>
+          {number}
+          <button
+            style={{ ...styles.move, ...(index + 1 === shown ? styles.currentMove : {}) }}
+            onClick={() => showMove(index + 1)}
+          >
+            {san}
+          </button>{' '}
+        </span>
+      );
+    });
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <h3 style={styles.title}>🧪 Sandbox</h3>
+        <button style={styles.button} onClick={onExit}>
+          Back to game
+        </button>
+      </div>
+      <p style={styles.note}>Moves made here don't change your game. Play your own moves to branch off the line.</p>
+
+      <div style={styles.board}>
+        {pendingPromotion && (
+          <PromotionDialog
+            color={new Chess(fen).turn()}
+            onSelect={(piece) => {
+              playMove({ ...pendingPromotion, promotion: piece });
+              setPendingPromotion(null);
+            }}
+            onCancel={() => setPendingPromotion(null)}
+          />
+        )}
+        <Chessboard
+          options={{
+            id: 'SandboxBoard',
+            position: fen,
+            arrows,
+            squareStyles,
+            onPieceDrop: ({ sourceSquare, targetSquare }) => {
+              if (!sourceSquare || !targetSquare) return false;
+              return onPieceDrop(sourceSquare, targetSquare);
+            },
+            boardOrientation: orientation,
+          }}
+        />
+      </div>
+
+      <div style={styles.controls}>
+        <button style={styles.secondaryButton} onClick={() => showMove(0)} disabled={shown === 0}>⏮</button>
+        <button style={styles.secondaryButton} onClick={() => showMove(shown - 1)} disabled={shown === 0}>◀</button>
+        <button style={styles.secondaryButton} onClick={() => showMove(shown + 1)} disabled={shown >= sans.length}>▶</button>
+        <button style={styles.secondaryButton} onClick={() => showMove(sans.length)} disabled={shown >= sans.length}>⏭</button>
+        <label style={styles.toggle}>
+          <input type="checkbox" checked={engineReplies} onChange={(e) => setEngineReplies(e.target.checked)} />
+          Engine answers my moves
+        </label>
+      </div>
+
+      <div style={styles.moves}>
+        {sans.length > 0 ? renderMoves() : <span style={styles.note}>Play a move to start a line.</span>}
+        {awaitingReply && <span style={styles.note}>Engine is thinking…</span>}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * A UCI move ("e7e8q") in the form chess.js accepts.
+ */
+function toMove(uci: string) {
+  return { from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] };
+}
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    width: '500px',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '10px',
+    fontFamily: 'sans-serif',
+    color: '#2c3e50',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    margin: 0,
+  },
+  note: {
+    margin: 0,
+    color: '#7f8c8d',
+    fontSize: '0.9rem',
+  },
+  board: {
+    position: 'relative',      // For the promotion dialog
+    width: '100%',
+  },
+  controls: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+  },
+  toggle: {
+    marginLeft: 'auto',
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    fontSize: '0.9rem',
+  },
+  moves: {
+    lineHeight: '1.8',
+    fontFamily: 'monospace',
+  },
+  move: {
+    padding: '1px 4px',
+    border: 'none',
+    borderRadius: '4px',
+    backgroundColor: 'transparent',
+    fontFamily: 'monospace',
+    fontSize: '1rem',
+    cursor: 'pointer',
+  },
+  currentMove: {
+    backgroundColor: '#f0d9b5',
+    fontWeight: 'bold',
+  },
+  button: {
+    padding: '8px 16px',
+    backgroundColor: '#b58863',
+    color: 'white',
+    border: 'none',
+    borderRadius: '6px',
+    cursor: 'pointer',
+  },
+  secondaryButton: {
+    padding: '6px 12px',
+    backgroundColor: 'transparent',
+    color: '#b58863',
+    border: '1px solid #b58863',
+    borderRadius: '6px',
+    cursor: 'pointer',
+  },
+};
+
+export default SandboxBoard;
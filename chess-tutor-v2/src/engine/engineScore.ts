@@ -0,0 +1,52 @@
+/**
+ * Engine scores and the arithmetic on them. Kept apart from the Stockfish
+ * worker so code without a browser (the tutor endpoint) can use it too.
+ */
+
+// Centipawn value used for forced mates so they still plot and compare as numbers
+export const MATE_SCORE = 10000;
+
+/**
+ * A score as reported by the engine, relative to the side to move.
+ */
+export interface EngineScore {
+  type: 'cp' | 'mate';
+  value: number;                // Centipawns, or moves to mate (negative = getting mated)
+}
+
+/**
+ * Flips a side-to-move score to White's point of view.
+ */
+export function scoreForWhite(score: EngineScore, fen: string): EngineScore {
+  const sideToMove = fen.split(' ')[1];
+  return sideToMove === 'b' ? { type: score.type, value: -score.value } : score;
+}
+
+/**
+ * Maps a score to centipawns, turning mates into +/- MATE_SCORE.
+ * "mate 0" means the side to move is already mated.
+ */
+export function scoreToCentipawns(score: EngineScore): number {
+  if (score.type === 'cp') return score.value;
+  return score.value > 0 ? MATE_SCORE - score.value : -MATE_SCORE - score.value;
+}
+
+/**
+ * Moves to mate for a centipawn evaluation: positive when White mates,
+ * negative when Black does, 0 once mate is on the board, or null if there
+ * is no forced mate.
+ */
+export function mateIn(cp: number): number | null {
+  if (Math.abs(cp) <= MATE_SCORE - 1000) return null;
+  const moves = MATE_SCORE - Math.abs(cp);
+  return cp > 0 ? moves : -moves;
+}
+
+/**
+ * Human-readable score, e.g. "+0.35", "-1.20", "#3" or "#-2".
+ */
+export function formatScore(score: EngineScore): string {
+  if (score.type === 'mate') return `#${score.value}`;
+  const pawns = (score.value / 100).toFixed(2);
+  return score.value > 0 ? `+${pawns}` : pawns;
+}
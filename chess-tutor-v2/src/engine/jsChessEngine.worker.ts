@@ -0,0 +1,35 @@
+import { Game } from 'js-chess-engine';
+
+/**
+ * Runs js-chess-engine off the main thread. Its higher levels search for
+ * several seconds, which would otherwise freeze the board.
+ *
+ * Request:  { id, fen, level }
+ * Response: { id, move, promotion } where move is `{ from: to }` or null,
+ *           and promotion is the piece a pawn was promoted to ('q', 'r', 'b', 'n').
+ */
+self.onmessage = (e: MessageEvent<{ id: number; fen: string; level: number }>) => {
+  const { id, fen, level } = e.data;
+  try {
+    const game = new Game(fen);
+    const move = game.aiMove(level);
+    const from = move && Object.keys(move)[0];
+    if (!from) {
+      self.postMessage({ id, move: null });
+      return;
+    }
+
+    // aiMove() has already played the move, so a promoted pawn shows up
+    // as its new piece on the destination square.
+    const movedPiece = new Game(fen).exportJson().pieces[from];
+    const landedPiece = game.exportJson().pieces[move[from]];
+    const promotion = movedPiece?.toLowerCase() === 'p' && landedPiece?.toLowerCase() !== 'p'
+      ? landedPiece.toLowerCase()
+      : undefined;
+
+    self.postMessage({ id, move, promotion });
+  } catch (error) {
+    console.error('js-chess-engine failed:', error);
+    self.postMessage({ id, move: null });
+  }
+};
@@ -0,0 +1,220 @@
+import {
+  StockfishEngine,
+  EngineCancelledError,
+  getSharedEngine,
+} from './stockfishEngine';
+import { scoreForWhite, scoreToCentipawns } from './engineScore';
+
+/**
+ * The computer opponent: either js-chess-engine (levels 0-4) or the bundled
+ * Stockfish worker weakened with UCI_LimitStrength / Skill Level.
+ * Both engines run off the main thread, so the board stays responsive
+ * while the AI is thinking.
+ */
+
+export type OpponentEngine = 'js-chess-engine' | 'stockfish';
+
+export interface OpponentLevel {
+  engine: OpponentEngine;
+  rating: number;               // Approximate playing strength shown to the user
+  label: string;
+  jsLevel?: number;             // js-chess-engine level (0-4)
+  elo?: number;                 // Stockfish UCI_Elo (1320 and up)
+  skillLevel?: number;          // Stockfish Skill Level for ratings below UCI_Elo's range
+  movetime?: number;            // Stockfish thinking time in milliseconds
+}
+
+export interface OpponentMove {
+  from: string;
+  to: string;
+  promotion?: string;
+}
+
+/**
+ * Both clocks in a timed game, in milliseconds, as UCI's go command takes them.
+ */
+export interface OpponentClock {
+  wtime: number;
+  btime: number;
+  winc: number;
+  binc: number;
+}
+
+export const OPPONENT_LEVELS: Record<OpponentEngine, OpponentLevel[]> = {
+  'js-chess-engine': [
+    { engine: 'js-chess-engine', rating: 400, label: '~400 (Beginner)', jsLevel: 0 },
+    { engine: 'js-chess-engine', rating: 600, label: '~600 (Easy)', jsLevel: 1 },
+    { engine: 'js-chess-engine', rating: 800, label: '~800 (Medium)', jsLevel: 2 },
+    { engine: 'js-chess-engine', rating: 1000, label: '~1000 (Hard)', jsLevel: 3 },
+    { engine: 'js-chess-engine', rating: 1200, label: '~1200 (Expert)', jsLevel: 4 },
+  ],
+  stockfish: [
+    { engine: 'stockfish', rating: 800, label: '~800', skillLevel: 0, movetime: 100 },
+    { engine: 'stockfish', rating: 1000, label: '~1000', skillLevel: 3, movetime: 150 },
+    { engine: 'stockfish', rating: 1200, label: '~1200', skillLevel: 6, movetime: 200 },
+    { engine: 'stockfish', rating: 1400, label: '1400', elo: 1400, movetime: 500 },
+    { engine: 'stockfish', rating: 1600, label: '1600', elo: 1600, movetime: 500 },
+    { engine: 'stockfish', rating: 1800, label: '1800', elo: 1800, movetime: 700 },
+    { engine: 'stockfish', rating: 2000, label: '2000', elo: 2000, movetime: 700 },
+    { engine: 'stockfish', rating: 2200, label: '2200', elo: 2200, movetime: 1000 },
+    { engine: 'stockfish', rating: 2500, label: '2500', elo: 2500, movetime: 1000 },
+    { engine: 'stockfish', rating: 3000, label: 'Full strength', movetime: 1500 },
+  ],
+};
+
+/**
+ * Name of the opponent for display and PGN headers, e.g. "Stockfish 1600".
+ */
+export function describeOpponent(level: OpponentLevel): string {
+  return level.engine === 'stockfish'
+    ? `Stockfish ${level.label}`
+    : `js-chess-engine Level ${level.jsLevel} (~${level.rating})`;
+}
+
+// The AI accepts a draw when it is at least this far behind (centipawns),
+// or when the position is dead level late in the game
+const DRAW_ACCEPT_DEFICIT = 50;
+const DRAW_LEVEL_MARGIN = 20;
+const DRAW_LEVEL_MIN_MOVE = 30;
+
+// ----------------------------------------------------------------
+// ENGINE INSTANCES
+// ----------------------------------------------------------------
+
+let stockfishOpponent: StockfishEngine | null = null;
+let jsEngineWorker: Worker | null = null;
+let nextRequestId = 0;
+
+/**
+ * Asks the selected engine for a move in `fen`. In a timed game `clock`
+ * makes the engine budget its thinking time from what is left.
+ * Resolves with null when the engine has no move to offer; rejects with
+ * EngineCancelledError when `signal` aborts first.
+ */
+export async function getOpponentMove(
+  fen: string,
+  level: OpponentLevel,
+  signal?: AbortSignal,
+  clock?: OpponentClock,
+): Promise<OpponentMove | null> {
+  return level.engine === 'stockfish'
+    ? getStockfishMove(fen, level, signal, clock)
+    : getJsEngineMove(fen, level, signal, clock);
+}
+
+async function getStockfishMove(
+  fen: string,
+  level: OpponentLevel,
+  signal?: AbortSignal,
+  clock?: OpponentClock,
+): Promise<OpponentMove | null> {
+  if (!stockfishOpponent) stockfishOpponent = new StockfishEngine();
+  const engine = stockfishOpponent;
+
+  // Elo limiting only works from 1320 up; weaker levels use Skill Level instead
+  await engine.setOption('UCI_LimitStrength', level.elo !== undefined);
+  if (level.elo !== undefined) await engine.setOption('UCI_Elo', level.elo);
+  await engine.setOption('Skill Level', level.skillLevel ?? 20);
+
+  // With a clock Stockfish does its own time management
+  const result = await engine.analyze(fen, clock ? { ...clock, signal } : { movetime: level.movetime ?? 500, signal });
+  if (!result.bestMove) return null;
+
+  return {
+    from: result.bestMove.slice(0, 2),
+    to: result.bestMove.slice(2, 4),
+    promotion: result.bestMove[4],
+  };
+}
+
+function getJsEngineMove(
+  fen: string,
+  level: OpponentLevel,
+  signal?: AbortSignal,
+  clock?: OpponentClock,
+): Promise<OpponentMove | null> {
+  if (!jsEngineWorker) {
+    jsEngineWorker = new Worker(new URL('./jsChessEngine.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+  }
+  const worker = jsEngineWorker;
+  const id = nextRequestId++;
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      worker.removeEventListener('message', handler);
+      // The worker can't be interrupted mid-search, so it is replaced rather
+      // than left finishing a move nobody wants ahead of the next request
+      worker.terminate();
+      if (jsEngineWorker === worker) jsEngineWorker = null;
+      reject(new EngineCancelledError());
+    };
+
+    const handler = (e: MessageEvent<{
+      id: number;
+      move: Record<string, string> | null;
+      promotion?: string;
+    }>) => {
+      if (e.data.id !== id) return;
+      worker.removeEventListener('message', handler);
+      signal?.removeEventListener('abort', onAbort);
+
+      const move = e.data.move;
+      const from = move && Object.keys(move)[0];
+      if (!move || !from || !move[from]) {
+        resolve(null);
+        return;
+      }
+      resolve({
+        from: from.toLowerCase(),
+        to: move[from].toLowerCase(),
+        promotion: e.data.promotion,
+      });
+    };
+
+    if (signal?.aborted) {
+      reject(new EngineCancelledError());
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+    worker.addEventListener('message', handler);
+    worker.postMessage({ id, fen, level: getJsEngineLevel(fen, level, clock) });
+  });
+}
+
+/**
+ * Decides whether the AI, playing the side that is not `offeredBy`,
+ * accepts a draw offer. The decision is the same at every level: it
+ * comes from a full-strength evaluation of the position.
+ */
+export async function respondToDrawOffer(
+  fen: string,
+  offeredBy: 'w' | 'b',
+  signal?: AbortSignal,
+): Promise<boolean> {
+  const result = await getSharedEngine().analyze(fen, { depth: 14, signal });
+  const bestLine = result.lines[0];
+  if (!bestLine) return true; // No legal moves: the game is already drawn or decided
+
+  const whiteCp = scoreToCentipawns(scoreForWhite(bestLine.score, fen));
+  const aiCp = offeredBy === 'w' ? -whiteCp : whiteCp;
+  const moveNumber = Number(fen.split(' ')[5]);
+
+  return aiCp <= -DRAW_ACCEPT_DEFICIT
+    || (Math.abs(aiCp) <= DRAW_LEVEL_MARGIN && moveNumber >= DRAW_LEVEL_MIN_MOVE);
+}
+
+/**
+ * js-chess-engine has no time control, and its higher levels can take
+ * several seconds per move, so it plays a lower level when short of time.
+ */
+function getJsEngineLevel(fen: string, level: OpponentLevel, clock?: OpponentClock): number {
+  const jsLevel = level.jsLevel ?? 0;
+  if (!clock) return jsLevel;
+
+  const remaining = fen.split(' ')[1] === 'w' ? clock.wtime : clock.btime;
+  if (remaining < 10_000) return Math.min(jsLevel, 1);
+  if (remaining < 30_000) return Math.min(jsLevel, 2);
+  return jsLevel;
+}
@@ -0,0 +1,396 @@
+import { Chess } from 'chess.js';
+import type { EngineScore } from './engineScore';
+
+/**
+ * Typed wrapper around the bundled Stockfish web worker.
+ *
+ * Every component talks to the engine through this module instead of
+ * posting raw UCI strings to its own Worker. Requests are queued so that
+ * only one search runs at a time on a worker, and each search resolves with
+ * structured MultiPV lines instead of text that has to be re-parsed.
+ */
+
+export const STOCKFISH_PATH = '/stockfish/stockfish-17.1-lite-single-03e3232.js';
+
+/**
+ * Options Stockfish 17.1 accepts through "setoption", with their value types.
+ */
+export interface StockfishOptions {
+  Threads: number;
+  Hash: number;
+  MultiPV: number;
+  'Skill Level': number;        // 0-20
+  'Move Overhead': number;      // Milliseconds
+  UCI_LimitStrength: boolean;
+  UCI_Elo: number;              // 1320-3190
+  UCI_ShowWDL: boolean;
+}
+
+/**
+ * One principal variation from a (MultiPV) search.
+ */
+export interface EngineLine {
+  multipv: number;              // 1 = best line
+  depth: number;
+  seldepth: number;
+  nodes: number;
+  score: EngineScore;
+  pv: string[];                 // Moves in UCI notation (e.g. "e2e4", "e7e8q")
+  pvSan: string[];              // The same moves in SAN, cut at the first illegal move
+}
+
+export interface EngineResult {
+  fen: string;
+  bestMove: string | null;      // null when the side to move has no legal moves
+  ponder: string | null;
+  lines: EngineLine[];          // Sorted best first
+}
+
+export interface SearchOptions {
+  depth?: number;
+  movetime?: number;            // Milliseconds
+  nodes?: number;
+  infinite?: boolean;           // Search until stop() is called or the signal aborts
+  wtime?: number;               // Clock times in milliseconds, for "go wtime ..."
+  btime?: number;
+  winc?: number;
+  binc?: number;
+  multiPv?: number;             // Defaults to 1
+  searchMoves?: string[];       // Restrict the search to these UCI moves
+  signal?: AbortSignal;         // Aborting rejects the search with EngineCancelledError
+  onInfo?: (lines: EngineLine[]) => void; // Called as the search deepens
+}
+
+/**
+ * Thrown when a queued or running search is cancelled through its AbortSignal
+ * or with cancelAll().
+ */
+export class EngineCancelledError extends Error {
+  constructor() {
+    super('Engine search was cancelled');
+    this.name = 'EngineCancelledError';
+  }
+}
+
+interface Job {
+  run: () => Promise<void>;
+  cancel: () => void;
+}
+
+export class StockfishEngine {
+  private worker: Worker;
+  private ready: Promise<void>;
+  private queue: Job[] = [];
+  private busy = false;
+  private terminated = false;
+  private multiPv = 1;
+  private lineListener: ((line: string) => void) | null = null;
+  // Rejects the command waiting for output, if there is one
+  private rejectPending: ((error: Error) => void) | null = null;
+  // Why the worker can't take commands any more: it failed, or was terminated
+  private failure: Error | null = null;
+
+  constructor(scriptPath: string = STOCKFISH_PATH) {
+    this.worker = new Worker(scriptPath);
+    this.worker.addEventListener('message', (e: MessageEvent) => {
+      if (typeof e.data !== 'string') return;
+      // The worker can batch several UCI lines into one message
+      for (const line of e.data.split('\n')) {
+        if (line.trim()) this.lineListener?.(line.trim());
+      }
+    });
+    // A script that fails to load or a crash in the engine
+    this.worker.addEventListener('error', (e: ErrorEvent) => {
+      this.fail(new Error(`Stockfish worker error: ${e.message || 'the engine could not be loaded'}`));
+    });
+
+    this.ready = this.send('uci', (line) => line === 'uciok').then(() => this.sync());
+    // Searches waiting for the engine get the failure; this only keeps it from going unhandled
+    this.ready.catch((error) => {
+      if (!(error instanceof EngineCancelledError)) console.error(error);
+    });
+  }
+
+  /**
+   * Sets a UCI option. The change is queued behind any pending search.
+   */
+  setOption<K extends keyof StockfishOptions>(name: K, value: StockfishOptions[K]): Promise<void> {
+    return this.enqueue(async () => {
+      this.worker.postMessage(`setoption name ${name} value ${value}`);
+      if (name === 'MultiPV') this.multiPv = value as number;
+      await this.sync();
+    });
+  }
+
+  /**
+   * Tells the engine that the next searches belong to a different game.
+   */
+  newGame(): Promise<void> {
+    return this.enqueue(async () => {
+      this.worker.postMessage('ucinewgame');
+      await this.sync();
+    });
+  }
+
+  /**
+   * Queues a search of the given position and resolves with its MultiPV lines.
+   */
+  analyze(fen: string, options: SearchOptions = {}): Promise<EngineResult> {
+    const { signal } = options;
+    if (signal?.aborted) return Promise.reject(new EngineCancelledError());
+
+    return this.enqueue(() => this.search(fen, options), signal);
+  }
+
+  /**
+   * Ends the running search early. It resolves with the best lines found so far.
+   */
+  stop() {
+    if (this.busy) this.worker.postMessage('stop');
+  }
+
+  /**
+   * Rejects every queued search and stops the running one.
+   */
+  cancelAll() {
+    const pending = this.queue;
+    this.queue = [];
+    pending.forEach((job) => job.cancel());
+    this.stop();
+  }
+
+  /**
+   * Rejects every queued search and the running one, and shuts the worker down.
+   */
+  terminate() {
+    this.cancelAll();
+    this.terminated = true;
+    this.fail(new EngineCancelledError());
+    this.worker.terminate();
+  }
+
+  // ----------------------------------------------------------------
+  // INTERNALS
+  // ----------------------------------------------------------------
+
+  private async search(fen: string, options: SearchOptions): Promise<EngineResult> {
+    const { signal, onInfo } = options;
+    const multiPv = options.multiPv ?? 1;
+
+    if (multiPv !== this.multiPv) {
+      this.worker.postMessage(`setoption name MultiPV value ${multiPv}`);
+      this.multiPv = multiPv;
+    }
+
+    const lines = new Map<number, EngineLine>();
+    const sortedLines = () => Array.from(lines.values()).sort((a, b) => a.multipv - b.multipv);
+
+    let cancelled = false;
+    const onAbort = () => {
+      cancelled = true;
+      this.worker.postMessage('stop');
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    this.worker.postMessage(`position fen ${fen}`);
+    let bestMoveLine = '';
+    try {
+      bestMoveLine = await this.send(buildGoCommand(options), (line) => {
+        if (line.startsWith('info') && !cancelled) {
+          const info = parseInfoLine(line, fen);
+          if (info) {
+            lines.set(info.multipv, info);
+            onInfo?.(sortedLines());
+          }
+        }
+        return line.startsWith('bestmove');
+      });
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    if (cancelled) throw new EngineCancelledError();
+
+    const [, bestMove, , ponder] = bestMoveLine.split(' ');
+    return {
+      fen,
+      bestMove: bestMove && bestMove !== '(none)' ? bestMove : null,
+      ponder: ponder ?? null,
+      lines: sortedLines(),
+    };
+  }
+
+  /**
+   * Waits until the engine has processed everything sent so far.
+   */
+  private async sync() {
+    await this.send('isready', (line) => line === 'readyok');
+  }
+
+  /**
+   * Posts a command and collects output until `isDone` returns true for a line.
+   * Resolves with that final line; rejects if the worker fails or is
+   * terminated first.
+   */
+  private send(command: string, isDone: (line: string) => boolean): Promise<string> {
+    return new Promise((resolve, reject) => {
+      if (this.failure) {
+        reject(this.failure);
+        return;
+      }
+      this.rejectPending = reject;
+      this.lineListener = (line) => {
+        if (isDone(line)) {
+          this.lineListener = null;
+          this.rejectPending = null;
+          resolve(line);
+        }
+      };
+      this.worker.postMessage(command);
+    });
+  }
+
+  /**
+   * Stops taking commands, rejecting the one waiting for output with `error`.
+   */
+  private fail(error: Error) {
+    this.failure ??= error;
+    this.lineListener = null;
+    this.rejectPending?.(error);
+    this.rejectPending = null;
+  }
+
+  private enqueue<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const job: Job = {
+        run: async () => {
+          try {
+            await this.ready;
+            if (signal?.aborted) throw new EngineCancelledError();
+            resolve(await task());
+          } catch (error) {
+            reject(error);
+          }
+        },
+        cancel: () => reject(new EngineCancelledError()),
+      };
+
+      // Drop the job if it is aborted before it gets to run
+      signal?.addEventListener('abort', () => {
+        const index = this.queue.indexOf(job);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          job.cancel();
+        }
+      }, { once: true });
+
+      if (this.terminated) {
+        job.cancel();
+        return;
+      }
+      this.queue.push(job);
+      this.processQueue();
+    });
+  }
+
+  private async processQueue() {
+    if (this.busy) return;
+    const job = this.queue.shift();
+    if (!job) return;
+
+    this.busy = true;
+    await job.run();
+    this.busy = false;
+    this.processQueue();
+  }
+}
+
+// ----------------------------------------------------------------
+// SHARED INSTANCE
+// ----------------------------------------------------------------
+
+let sharedEngine: StockfishEngine | null = null;
+
+/**
+ * The engine used for on-demand requests (hints, post-game analysis).
+ * Long-running consumers such as continuous analysis should create their
+ * own StockfishEngine so they don't hold up this queue.
+ */
+export function getSharedEngine(): StockfishEngine {
+  if (!sharedEngine) sharedEngine = new StockfishEngine();
+  return sharedEngine;
+}
+
+// ----------------------------------------------------------------
+// HELPERS
+// ----------------------------------------------------------------
+
+function buildGoCommand(options: SearchOptions): string {
+  const parts = ['go'];
+  if (options.searchMoves?.length) parts.push('searchmoves', ...options.searchMoves);
+  if (options.wtime !== undefined) parts.push('wtime', String(Math.round(options.wtime)));
+  if (options.btime !== undefined) parts.push('btime', String(Math.round(options.btime)));
+  if (options.winc !== undefined) parts.push('winc', String(Math.round(options.winc)));
+  if (options.binc !== undefined) parts.push('binc', String(Math.round(options.binc)));
+  if (options.depth !== undefined) parts.push('depth', String(options.depth));
+  if (options.movetime !== undefined) parts.push('movetime', String(Math.round(options.movetime)));
+  if (options.nodes !== undefined) parts.push('nodes', String(options.nodes));
+  if (options.infinite || parts.length === 1) parts.push('infinite');
+  return parts.join(' ');
+}
+
+/**
+ * Parses an "info ... pv ..." line. Returns null for lines without a PV
+ * and for aspiration-window bounds, which are not final scores.
+ */
+function parseInfoLine(line: string, fen: string): EngineLine | null {
+  const tokens = line.split(' ');
+  const pvIndex = tokens.indexOf('pv');
+  if (pvIndex === -1 || tokens.includes('lowerbound') || tokens.includes('upperbound')) {
+    return null;
+  }
+
+  const numberAfter = (key: string) => {
+    const index = tokens.indexOf(key);
+    return index === -1 ? 0 : parseInt(tokens[index + 1]);
+  };
+
+  const scoreIndex = tokens.indexOf('score');
+  if (scoreIndex === -1) return null;
+
+  const pv = tokens.slice(pvIndex + 1);
+  return {
+    multipv: numberAfter('multipv') || 1,
+    depth: numberAfter('depth'),
+    seldepth: numberAfter('seldepth'),
+    nodes: numberAfter('nodes'),
+    score: {
+      type: tokens[scoreIndex + 1] === 'mate' ? 'mate' : 'cp',
+      value: parseInt(tokens[scoreIndex + 2]),
+    },
+    pv,
+    pvSan: pvToSan(fen, pv),
+  };
+}
+
+/**
+ * Converts UCI moves to SAN, stopping at the first move that is illegal
+ * in the resulting position.
+ */
+export function pvToSan(fen: string, pv: string[]): string[] {
+  const chess = new Chess(fen);
+  const san: string[] = [];
+  for (const uci of pv) {
+    try {
+      const move = chess.move({
+        from: uci.slice(0, 2),
+        to: uci.slice(2, 4),
+        promotion: uci.length > 4 ? uci[4] : undefined,
+      });
+      san.push(move.san);
+    } catch {
+      break;
+    }
+  }
+  return san;
+}
@@ -0,0 +1,34 @@
+import { Chess } from 'chess.js';
+import { scoreToCentipawns, type EngineScore } from './engineScore';
+
+/**
+ * The rules of threat detection by null-move search, shared by the
+ * browser's engine (./threats) and the tutor endpoint's native one: what
+ * the opponent would play if the side to move passed counts as a threat
+ * when it would gain them at least THREAT_MIN_GAIN over the current
+ * evaluation, or mate.
+ */
+
+export const THREAT_MIN_GAIN = 100;    // Centipawns
+
+/**
+ * The position with the other side to move, or null if the side to move
+ * is in check and so can't pass.
+ */
+export function nullMoveFen(fen: string): string | null {
+  if (new Chess(fen).inCheck()) return null;
+  const [placement, turn, castling, , halfMoves, fullMoves] = fen.split(' ');
+  const nextFullMoves = turn === 'b' ? Number(fullMoves) + 1 : Number(fullMoves);
+  return [placement, turn === 'w' ? 'b' : 'w', castling, '-', halfMoves, nextFullMoves].join(' ');
+}
+
+/**
+ * Whether the opponent's best move after a pass, scored `threatScore` for
+ * them, is a threat against the side to move's `currentScore`.
+ */
+export function isThreat(threatScore: EngineScore, currentScore: EngineScore): boolean {
+  // Both scores from the opponent's side: what they get by moving again, against what they have now
+  const gain = scoreToCentipawns(threatScore) + scoreToCentipawns(currentScore);
+  const mates = threatScore.type === 'mate' && threatScore.value > 0;
+  return mates || gain >= THREAT_MIN_GAIN;
+}
@@ -0,0 +1,38 @@
+import { getSharedEngine } from './stockfishEngine';
+import type { EngineScore } from './engineScore';
+import { isThreat, nullMoveFen } from './threatRules';
+
+/**
+ * Threat detection in the browser: the opponent's threat, found with a
+ * null-move search on the shared engine (see ./threatRules).
+ */
+
+const THREAT_DEPTH = 12;
+
+export interface Threat {
+  fen: string;                  // Position the threat is against
+  move: string;                 // The opponent's move, in UCI
+  san: string;
+  score: EngineScore;           // After the threat, for the opponent
+}
+
+/**
+ * Finds the opponent's threat in `fen`, or null if there is none worth
+ * pointing out. `currentScore` is the side to move's evaluation, when it
+ * is already known from another search.
+ */
+export async function findThreat(
+  fen: string,
+  { currentScore, signal }: { currentScore?: EngineScore; signal?: AbortSignal } = {},
+): Promise<Threat | null> {
+  const passedFen = nullMoveFen(fen);
+  if (!passedFen) return null;
+
+  const engine = getSharedEngine();
+  const current = currentScore ?? (await engine.analyze(fen, { depth: THREAT_DEPTH, signal })).lines[0]?.score;
+  const passed = await engine.analyze(passedFen, { depth: THREAT_DEPTH, signal });
+  const line = passed.lines[0];
+  if (!current || !passed.bestMove || !line || !isThreat(line.score, current)) return null;
+
+  return { fen, move: passed.bestMove, san: line.pvSan[0] ?? passed.bestMove, score: line.score };
+}
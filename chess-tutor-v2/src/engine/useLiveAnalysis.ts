@@ -0,0 +1,86 @@
+import { useEffect, useRef, useState } from 'react';
+import { Chess } from 'chess.js';
+import {
+  EngineCancelledError,
+  StockfishEngine,
+  type EngineLine,
+} from './stockfishEngine';
+import { scoreForWhite, type EngineScore } from './engineScore';
+
+interface LiveAnalysisOptions {
+  enabled: boolean;
+  multiPv?: number;
+  depth?: number;
+}
+
+interface LiveAnalysis {
+  fen: string;                  // The position the lines belong to
+  lines: EngineLine[];          // Best line first; scores are side-to-move relative
+  score: EngineScore | null;    // Best score from White's point of view
+  result: '1-0' | '0-1' | '1/2-1/2' | null; // Set instead of a score once the game is over
+}
+
+/**
+ * Continuously analyzes `fen` in the background on a dedicated engine,
+ * restarting whenever the position changes.
+ *
+ * It uses its own worker rather than the shared engine so that on-demand
+ * requests (hints, post-game analysis) never wait behind it.
+ */
+export function useLiveAnalysis(
+  fen: string,
+  { enabled, multiPv = 3, depth = 20 }: LiveAnalysisOptions,
+): LiveAnalysis {
+  const engineRef = useRef<StockfishEngine | null>(null);
+  const [analysis, setAnalysis] = useState<LiveAnalysis>({ fen, lines: [], score: null, result: null });
+
+  useEffect(() => {
+    return () => {
+      engineRef.current?.terminate();
+      engineRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    // Finished games have nothing to search; score them from the rules
+    const position = new Chess(fen);
+    if (position.isGameOver()) {
+      const result = !position.isCheckmate() ? '1/2-1/2' : position.turn() === 'w' ? '0-1' : '1-0';
+      setAnalysis({ fen, lines: [], score: null, result });
+      return;
+    }
+
+    // The worker is started lazily, the first time analysis is switched on
+    const engine = engineRef.current ?? new StockfishEngine();
+    engineRef.current = engine;
+
+    const controller = new AbortController();
+    setAnalysis({ fen, lines: [], score: null, result: null });
+
+    engine
+      .analyze(fen, {
+        depth,
+        multiPv,
+        signal: controller.signal,
+        onInfo: (lines) => {
+          setAnalysis({
+            fen,
+            lines,
+            score: scoreForWhite(lines[0].score, fen),
+            result: null,
+          });
+        },
+      })
+      .catch((error) => {
+        if (!(error instanceof EngineCancelledError)) {
+          console.error('Live analysis failed:', error);
+        }
+      });
+
+    return () => controller.abort();
+  }, [fen, enabled, multiPv, depth]);
+
+  return analysis;
+}
@@ -0,0 +1,58 @@
+/**
+ * The app's IndexedDB database.
+ *
+ * "games" holds every saved game under its id, "meta" remembers which game
+ * was open last, and "puzzles" holds the puzzle trainer's positions.
+ */
+
+const DB_NAME = 'chess-tutor';
+const DB_VERSION = 2;
+export const GAMES_STORE = 'games';
+export const META_STORE = 'meta';
+export const PUZZLES_STORE = 'puzzles';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(GAMES_STORE)) {
+          db.createObjectStore(GAMES_STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+        if (!db.objectStoreNames.contains(PUZZLES_STORE)) {
+          db.createObjectStore(PUZZLES_STORE, { keyPath: 'id' }).createIndex('dueAt', 'dueAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null; // Let the next call try again
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Runs a single request against one object store.
+ */
+export async function run<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest,
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
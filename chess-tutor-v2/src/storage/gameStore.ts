@@ -0,0 +1,47 @@
+import type { SavedGame } from '../types/savedGame';
+import { GAMES_STORE, META_STORE, run } from './database';
+
+/**
+ * Game storage in IndexedDB.
+ *
+ * Every game is kept in the "games" store under its id. The "meta" store
+ * remembers which game was open last so it can be resumed on reload.
+ */
+
+const CURRENT_GAME_KEY = 'currentGameId';
+
+export function createGameId(): string {
+  return crypto.randomUUID();
+}
+
+export async function saveGame(game: SavedGame): Promise<void> {
+  await run(GAMES_STORE, 'readwrite', (store) => store.put(game));
+}
+
+export async function getGame(id: string): Promise<SavedGame | null> {
+  return (await run<SavedGame | undefined>(GAMES_STORE, 'readonly', (store) => store.get(id))) ?? null;
+}
+
+/**
+ * All saved games, most recently played first.
+ */
+export async function listGames(): Promise<SavedGame[]> {
+  const games = await run<SavedGame[]>(GAMES_STORE, 'readonly', (store) => store.index('updatedAt').getAll());
+  return games.reverse();
+}
+
+export async function deleteGame(id: string): Promise<void> {
+  await run(GAMES_STORE, 'readwrite', (store) => store.delete(id));
+}
+
+export async function setCurrentGameId(id: string): Promise<void> {
+  await run(META_STORE, 'readwrite', (store) => store.put(id, CURRENT_GAME_KEY));
+}
+
+/**
+ * The game that was open when the page was last used, if it still exists.
+ */
+export async function loadCurrentGame(): Promise<SavedGame | null> {
+  const id = await run<string | undefined>(META_STORE, 'readonly', (store) => store.get(CURRENT_GAME_KEY));
+  return id ? getGame(id) : null;
+}
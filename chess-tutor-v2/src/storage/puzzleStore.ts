@@ -0,0 +1,37 @@
+import type { Puzzle } from '../types/puzzle';
+import { PUZZLES_STORE, run } from './database';
+
+/**
+ * Puzzle storage in IndexedDB, in the "puzzles" store keyed by puzzle id.
+ */
+
+/**
+ * Adds puzzles that are not stored yet. Ones already stored keep their
+ * review history. Returns how many were added.
+ */
+export async function addPuzzles(puzzles: Puzzle[]): Promise<number> {
+  let added = 0;
+  for (const puzzle of puzzles) {
+    const existing = await run<string | undefined>(PUZZLES_STORE, 'readonly', (store) => store.getKey(puzzle.id));
+    if (existing === undefined) {
+      await savePuzzle(puzzle);
+      added++;
+    }
+  }
+  return added;
+}
+
+export async function savePuzzle(puzzle: Puzzle): Promise<void> {
+  await run(PUZZLES_STORE, 'readwrite', (store) => store.put(puzzle));
+}
+
+/**
+ * All stored puzzles, soonest due first.
+ */
+export async function listPuzzles(): Promise<Puzzle[]> {
+  return run<Puzzle[]>(PUZZLES_STORE, 'readonly', (store) => store.index('dueAt').getAll());
+}
+
+export async function deletePuzzle(id: string): Promise<void> {
+  await run(PUZZLES_STORE, 'readwrite', (store) => store.delete(id));
+}
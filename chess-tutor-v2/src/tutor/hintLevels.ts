@@ -0,0 +1,9 @@
+/**
+ * How much a hint gives away, shared by the tutor UI and the tutor
+ * endpoint: 1 a general idea, 2 the piece to move, 3 where it goes, 4 the
+ * full engine lines with the tutor's explanation.
+ */
+
+export type HintLevel = 1 | 2 | 3 | 4;
+
+export const FULL_HINT: HintLevel = 4;
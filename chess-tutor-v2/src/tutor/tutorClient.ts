@@ -0,0 +1,122 @@
+/**
+ * Client for the tutor endpoint, /api/chess-tutor.
+ *
+ * Replies are streamed as Server-Sent Events so they can be shown while
+ * they are written. Callers that only need the finished text (such as the
+ * game summary) can still post without `stream` and read the JSON reply.
+ */
+
+import type { EngineLine } from '../engine/stockfishEngine';
+import type { EngineScore } from '../engine/engineScore';
+import type { GameAnalysis } from '../types/analysis';
+import type { TutorMove } from '../types/savedGame';
+import type { HintLevel } from './hintLevels';
+
+/**
+ * The tutor's instructions are added by the server, so clients only send
+ * the student's and the tutor's messages.
+ */
+export interface TutorMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * The game so far, sent with chat questions so the tutor can answer about
+ * earlier moves. The server trims it to fit its token budget.
+ */
+export interface TutorGame {
+  startFen: string;
+  moves: string[];                 // Main line in SAN
+  ply?: number;                    // Position on the board, as a ply of the game
+  analysis?: Pick<GameAnalysis, 'classification' | 'evaluation' | 'bestMove'>[]; // One per move, once analyzed
+  summary?: string;                // The coach's summary of the analysis
+}
+
+/**
+ * Either a chat (`messages`) or a hint request for a position.
+ */
+export interface TutorRequest {
+  messages?: TutorMessage[];
+  fen?: string;                    // Position on the board; the server works out its facts
+  opening?: string;                // ECO code and name, e.g. "C50 Italian Game"
+  engineLines?: Pick<EngineLine, 'depth' | 'score' | 'pv'>[]; // The browser engine's candidate lines
+  threat?: { move: string; score: EngineScore } | null;       // The opponent's threat in `fen`; null if there is none
+  level?: HintLevel;               // How much a hint gives away; the full hint if left out
+  game?: TutorGame;                // Chats only
+}
+
+/**
+ * Squares a partial hint points at: the piece to move, and from level 3
+ * where it goes.
+ */
+export interface HintFocus {
+  from: string;
+  to?: string;
+}
+
+export interface TutorReply {
+  text: string;
+  moves: TutorMove[];              // Legal moves suggested for `fen`; empty without one
+  focus?: HintFocus;               // Only for hints at levels 2 and 3
+}
+
+/**
+ * Streams the tutor's reply. `onText` is called with the reply so far each
+ * time more of it arrives. Resolves with the whole reply and, once it is
+ * complete, the moves it suggests and the squares a hint points at;
+ * rejects with the fetch AbortError if `signal` is aborted.
+ */
+export async function streamTutorReply(
+  request: TutorRequest,
+  onText: (text: string) => void,
+  signal?: AbortSignal,
+): Promise<TutorReply> {
+  const response = await fetch('/api/chess-tutor', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+    body: JSON.stringify({ ...request, stream: true }),
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    // Rejected requests carry the reason as `{"error": "..."}`
+    const reason = await response.json().then((data: { error?: string }) => data.error, () => undefined);
+    throw new Error(`Tutor request failed with status ${response.status}${reason ? `: ${reason}` : ''}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let text = '';
+  let moves: TutorMove[] = [];
+  let focus: HintFocus | undefined;
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    // Events are separated by a blank line; the last piece may be incomplete
+    const events = buffer.split('\n\n');
+    buffer = events.pop() ?? '';
+
+    for (const event of events) {
+      const data = event
+        .split('\n')
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trimStart())
+        .join('\n');
+      if (!data || data === '[DONE]') continue;
+
+      const payload = JSON.parse(data) as { delta?: string; moves?: TutorMove[]; focus?: HintFocus; error?: string };
+      if (payload.error) throw new Error(payload.error);
+      if (payload.moves) moves = payload.moves;
+      if (payload.focus) focus = payload.focus;
+      if (payload.delta) {
+        text += payload.delta;
+        onText(text);
+      }
+    }
+  }
+
+  return { text, moves, focus };
+}
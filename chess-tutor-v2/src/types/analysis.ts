@@ -0,0 +1,26 @@
+/**
+ * Type definitions for game analysis
+ */
+export interface GameAnalysis {
+  moveNumber: number;        // Which move in the game (1, 2, 3, etc.)
+  move: string;              // The move in SAN notation (e.g., "Nf3", "e4")
+  fen: string;               // Position after this move
+  evaluation: number;        // Centipawn evaluation (100 = 1 pawn advantage)
+  evaluationBefore?: number; // Evaluation of the position the move was played in
+  classification:
+    | 'brilliant'            // A sound sacrifice
+    | 'great'                // The only move that keeps the evaluation
+    | 'best'
+    | 'excellent'
+    | 'good'
+    | 'inaccuracy'
+    | 'mistake'
+    | 'miss'                 // A missed mate or win
+    | 'blunder'
+    | 'book';
+  comment?: string;          // Optional comment about the move
+  bestMove?: string;         // Engine's best move in SAN, from the position before this move
+  bestLine?: string[];       // Engine's line in SAN, starting with bestMove
+}
+
+export type MoveClassification = GameAnalysis['classification'];
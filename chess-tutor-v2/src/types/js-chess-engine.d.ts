@@ -0,0 +1,12 @@
+/**
+ * Minimal type declarations for the parts of js-chess-engine we use.
+ * Squares are upper-case (e.g. "E2") and moves are `{ from: to }` objects.
+ */
+declare module 'js-chess-engine' {
+  export class Game {
+    constructor(configuration?: string);
+    aiMove(level?: number): Record<string, string>;
+    exportFEN(): string;
+    exportJson(): { pieces: Record<string, string>; turn: 'white' | 'black' };
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Type definitions for the puzzle trainer
+ */
+
+/**
+ * A position from one of the player's games where they made a mistake.
+ * Solving it means finding the engine's best line instead.
+ */
+export interface Puzzle {
+  id: string;                // `${gameId}:${ply}`, so re-analyzing a game adds no duplicates
+  gameId: string;
+  fen: string;               // Position before the mistake, with the solver to move
+  solution: string[];        // Engine's best line in UCI; the solver plays the even-indexed moves
+  playedMove: string;        // The move actually played, in SAN
+  classification: 'mistake' | 'miss' | 'blunder';
+  createdAt: number;         // Epoch milliseconds
+
+  // Review schedule
+  box: number;               // 0 for new or failed puzzles, one higher after each solve
+  dueAt: number;             // Epoch milliseconds when it should next be shown
+  attempts: number;
+  solved: number;
+}
@@ -0,0 +1,77 @@
+import type { MoveTree } from '../chess/moveTree';
+import type { PgnGame } from '../chess/pgn';
+import type { GameAnalysis } from './analysis';
+import type { GameAccuracy } from '../chess/accuracy';
+import type { OpponentEngine } from '../engine/opponent';
+import type { TimeControl } from '../chess/timeControl';
+import type { GameOutcome } from '../chess/outcome';
+import type { HintLevel } from '../tutor/hintLevels';
+
+/**
+ * Type definitions for games saved in the browser
+ */
+
+/**
+ * A move the tutor suggested, checked to be legal in the position it was
+ * suggested for.
+ */
+export interface TutorMove {
+  san: string;
+  uci: string;
+  reason?: string;
+  line?: string[];             // Engine line starting with the move, in UCI, for the sandbox
+}
+
+/**
+ * A message in the tutor chat.
+ */
+export interface ChatMessage {
+  id?: string;                 // Set on tutor replies, so one being streamed in is updated in place
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  timestamp: Date;
+  moves?: TutorMove[];         // Suggested moves, shown as buttons under the reply
+  fen?: string;                // Position the moves are for
+  ply?: number;                // Position of the game it was about, as a ply; undefined off the main line
+}
+
+/**
+ * Who is playing: a human against the AI, two humans on one device,
+ * or the AI against itself.
+ */
+export type GameMode = 'human-vs-ai' | 'hotseat' | 'ai-vs-ai';
+
+/**
+ * The state ChessTutorGame keeps for itself, saved so a game can be
+ * resumed exactly where it was left.
+ */
+export interface GameSession {
+  moveTree: MoveTree;
+  currentNodeId: number;     // Move whose position is on the board
+  gameMode: GameMode;
+  playerColor: 'w' | 'b';
+  opponentEngine: OpponentEngine;
+  difficulty: number;        // Index into OPPONENT_LEVELS[opponentEngine]
+  timeControl: TimeControl | null; // null for untimed games
+  ending: GameOutcome | null; // Resignation, agreed draw or timeout
+}
+
+export interface SavedGame {
+  id: string;
+  createdAt: number;         // Epoch milliseconds
+  updatedAt: number;
+  startFen: string;
+  moves: string[];           // Main line in SAN
+  session: GameSession | null;
+  white: string;             // Player names, as written to PGN
+  black: string;
+  opponent: string;          // The AI's name and level, e.g. "Stockfish (Elo 1600)"
+  result: string;            // "1-0", "0-1", "1/2-1/2" or "*" while in progress
+  outcome: GameOutcome | null; // How the game ended, once it has
+  analysis: GameAnalysis[];
+  accuracy: GameAccuracy | null;
+  summary: string;           // Coach's summary of the analysis
+  chat: ChatMessage[];
+  hintsUsed?: Record<HintLevel, number>; // Hints asked for at each level; missing in games saved before hint levels
+  importedPgn: PgnGame | null;
+}